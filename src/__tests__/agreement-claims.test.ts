@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber, utils } from 'ethers';
+import { ClaimDataCoder } from '@zero-labs/tokenization-contracts';
+
+import { reconcile } from '../reconcile';
+import {
+    BUYER,
+    ISSUER,
+    SECOND_AGREEMENT,
+    VALID_AGREEMENT,
+    event,
+    syntheticEvents,
+} from './synthetic-events';
+
+/*
+ * Agreement claims tests
+ */
+
+const AGREEMENT_CLAIM_TX = utils.id('agreement-claim-tx');
+
+const CLAIM_DATA = ClaimDataCoder.encode({
+    beneficiary: 'Buyer;f01234',
+    region: 'IDF',
+    countryCode: 'FR',
+    periodStartDate: '2022-01-01T00:00:00.000Z',
+    periodEndDate: '2022-12-31T23:59:59.999Z',
+    purpose: 'Decarbonization',
+    consumptionEntityID: 'Buyer;f01234',
+    proofID: 'agreement-proof',
+    data: '',
+});
+
+const claimSingle = (logIndex: number, id: number, value: number) =>
+    event(
+        60,
+        logIndex,
+        {
+            _claimIssuer: ISSUER,
+            _claimSubject: BUYER,
+            _topic: BigNumber.from(1),
+            _id: BigNumber.from(id),
+            _value: BigNumber.from(value),
+            _claimData: CLAIM_DATA,
+        },
+        AGREEMENT_CLAIM_TX,
+    );
+
+describe('agreement claims', () => {
+    it('leaves agreements unclaimed without AgreementClaimed events', () => {
+        for (const agreement of reconcile(syntheticEvents()).agreements) {
+            assert.equal(agreement.claimStatus, 'unclaimed');
+            assert.equal(agreement.claimedAmount, '0');
+            assert.deepEqual(agreement.agreementClaims, []);
+        }
+    });
+
+    it('matches agreement claims to the ClaimSingle events of their transaction', () => {
+        const events = syntheticEvents();
+        // Certificate 3 is claimed in the same transaction, but belongs to the second agreement.
+        events.claimSingle.push(
+            claimSingle(1, 1, 600),
+            claimSingle(2, 2, 400),
+            claimSingle(3, 3, 300),
+        );
+        events.agreementClaimed.push(
+            event(
+                60,
+                4,
+                { agreementAddress: VALID_AGREEMENT, claimData: CLAIM_DATA },
+                AGREEMENT_CLAIM_TX,
+            ),
+            // Claimed in another transaction, where no certificate was claimed.
+            event(
+                60,
+                5,
+                { agreementAddress: SECOND_AGREEMENT, claimData: CLAIM_DATA },
+                utils.id('other-tx'),
+            ),
+        );
+        const [validAgreement, secondAgreement] = reconcile(events).agreements;
+
+        assert.equal(validAgreement.claimStatus, 'claimed');
+        assert.equal(validAgreement.claimedAmount, '1000');
+        assert.deepEqual(
+            validAgreement.agreementClaims.map(c => ({
+                claimedAmount: c.claimedAmount,
+                certificateIds: c.certificateIds,
+                claimLogIndexes: c.claimLogIndexes,
+                decodeStatus: c.decodeStatus,
+                proofID: c.claimDataDecoded.proofID,
+                logIndex: c.logIndex,
+                timestamp: c.timestamp,
+            })),
+            [
+                {
+                    claimedAmount: '1000',
+                    certificateIds: ['1', '2'],
+                    claimLogIndexes: [1, 2],
+                    decodeStatus: 'ok',
+                    proofID: 'agreement-proof',
+                    logIndex: 4,
+                    timestamp: '',
+                },
+            ],
+        );
+
+        assert.equal(secondAgreement.claimStatus, 'partially-claimed');
+        assert.equal(secondAgreement.claimedAmount, '0');
+    });
+
+    it('matches each ClaimSingle event to a single agreement claim', () => {
+        const events = syntheticEvents();
+        events.claimSingle.push(claimSingle(1, 1, 600));
+        events.agreementClaimed.push(
+            event(
+                60,
+                2,
+                { agreementAddress: VALID_AGREEMENT, claimData: CLAIM_DATA },
+                AGREEMENT_CLAIM_TX,
+            ),
+            event(
+                60,
+                3,
+                { agreementAddress: VALID_AGREEMENT, claimData: CLAIM_DATA },
+                AGREEMENT_CLAIM_TX,
+            ),
+        );
+        const [validAgreement] = reconcile(events).agreements;
+
+        assert.deepEqual(
+            validAgreement.agreementClaims.map(c => c.claimedAmount),
+            ['600', '0'],
+        );
+        assert.equal(validAgreement.claimStatus, 'partially-claimed');
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { utils } from 'ethers';
+import { AgreementMetadataCoder } from '@zero-labs/tokenization-contracts';
+
+import { decodeAgreementMetadata } from '../agreement-metadata';
+
+/*
+ * Agreement metadata decoding tests
+ */
+
+const METADATA = {
+    productType: 'IREC',
+    energySources: ['SOLAR', 'WIND'],
+    country: 'US',
+    region: 'CA',
+    agreementId: 'agreement-1',
+    orderId: 'order-1',
+    data: 'Q1-2022',
+};
+
+describe('decodeAgreementMetadata', () => {
+    it('flattens the decoded metadata', () => {
+        assert.deepEqual(
+            decodeAgreementMetadata(AgreementMetadataCoder.encode(METADATA)),
+            {
+                productType: 'IREC',
+                energySources: ['SOLAR', 'WIND'],
+                country: 'US',
+                region: 'CA',
+                agreementId: 'agreement-1',
+                orderId: 'order-1',
+                metadataData: 'Q1-2022',
+                metadataDecodeStatus: 'ok',
+                metadataDecodeWarnings: [],
+            },
+        );
+    });
+
+    it('leaves missing fields empty', () => {
+        const decoded = decodeAgreementMetadata(
+            utils.hexlify(utils.toUtf8Bytes('IREC--SOLAR--US--agreement-1')),
+        );
+
+        assert.equal(decoded.country, 'US');
+        assert.equal(decoded.region, '');
+        assert.equal(decoded.orderId, '');
+        assert.equal(decoded.metadataDecodeStatus, 'recovered');
+        assert.deepEqual(decoded.metadataDecodeWarnings, [
+            'missing region',
+            'missing orderId',
+        ]);
+    });
+
+    it('fails without throwing on undecodable metadata', () => {
+        for (const metadata of ['0xff', '0x', 'not hex']) {
+            const decoded = decodeAgreementMetadata(metadata);
+
+            assert.equal(decoded.metadataDecodeStatus, 'failed');
+            assert.equal(decoded.agreementId, '');
+            assert.deepEqual(decoded.metadataDecodeWarnings, [
+                'metadata could not be decoded',
+            ]);
+        }
+    });
+});
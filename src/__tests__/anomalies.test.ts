@@ -0,0 +1,181 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber, constants, utils } from 'ethers';
+
+import { reconcile } from '../reconcile';
+import {
+    BATCH_1,
+    OPERATOR,
+    SECOND_AGREEMENT,
+    SP_ADDRESS,
+    event,
+    syntheticEvents,
+} from './synthetic-events';
+
+/*
+ * Invariant checks and inventory tests
+ */
+
+describe('anomalies', () => {
+    it('only flags claim subjects outside agreements on the synthetic events', () => {
+        const { anomalies } = reconcile(syntheticEvents());
+
+        assert.deepEqual(
+            anomalies.map(a => [a.severity, a.check, a.subjectType]),
+            [
+                ['warning', 'claim-subject-not-agreement-party', 'claim'],
+                ['warning', 'claim-subject-not-agreement-party', 'claim'],
+                ['warning', 'claim-subject-not-agreement-party', 'claim'],
+            ],
+        );
+        assert.ok(anomalies.every(a => a.message.includes(SP_ADDRESS)));
+    });
+
+    it('flags every broken invariant', () => {
+        const events = syntheticEvents();
+        const batch3 = utils.id('batch-3');
+        // Certificate 3 claimed twice, and certificate 6 filled without being minted nor batched.
+        events.claimBatch.push(
+            event(60, 1, {
+                _claimIssuer: OPERATOR,
+                _claimSubject: events.claimBatch[0].args._claimSubject,
+                _ids: [BigNumber.from(3)],
+                _values: [BigNumber.from(300)],
+                _claimData: [events.claimBatch[0].args._claimData[1]],
+            }),
+        );
+        events.agreementFilled.push(
+            event(61, 1, {
+                agreementAddress: SECOND_AGREEMENT,
+                certificateId: BigNumber.from(6),
+                amount: BigNumber.from(100),
+            }),
+        );
+        events.redemptionStatementSet.push(
+            event(62, 1, {
+                batchId: BATCH_1,
+                redemptionStatement: 'bafybeiredemptionstatement1bis',
+                storagePointer:
+                    'https://ipfs.io/ipfs/bafybeiredemptionstatement1bis',
+            }),
+            event(63, 1, {
+                batchId: batch3,
+                redemptionStatement: 'bafybeiredemptionstatement3',
+                storagePointer:
+                    'https://ipfs.io/ipfs/bafybeiredemptionstatement3',
+            }),
+        );
+
+        const anomalies = reconcile(events).anomalies.filter(
+            a => a.check !== 'claim-subject-not-agreement-party',
+        );
+
+        assert.deepEqual(anomalies, [
+            {
+                severity: 'error',
+                check: 'claimed-exceeds-minted',
+                subjectType: 'certificate',
+                subjectId: '3',
+                message: '600 Wh claimed for 300 Wh minted',
+            },
+            {
+                severity: 'error',
+                check: 'filled-exceeds-signed',
+                subjectType: 'agreement',
+                subjectId: SECOND_AGREEMENT,
+                message: '400 Wh filled for 300 Wh signed',
+            },
+            {
+                severity: 'warning',
+                check: 'filled-certificate-without-batch',
+                subjectType: 'certificate',
+                subjectId: '6',
+                message: `filled into agreement ${SECOND_AGREEMENT} but linked to no batch`,
+            },
+            {
+                severity: 'warning',
+                check: 'redemption-statement-without-batch-mint',
+                subjectType: 'batch',
+                subjectId: batch3,
+                message:
+                    'redemption statement bafybeiredemptionstatement3 set but no certificate minted in the batch',
+            },
+            {
+                severity: 'warning',
+                check: 'duplicate-redemption-statement',
+                subjectType: 'batch',
+                subjectId: BATCH_1,
+                message:
+                    '2 redemption statements set: bafybeiredemptionstatement1 bafybeiredemptionstatement1bis',
+            },
+        ]);
+    });
+
+    it('tells apart the claims of the same transaction', () => {
+        const events = syntheticEvents();
+        const { _claimData } = events.claimBatch[0].args;
+        const claim = event(60, 1, {
+            _claimIssuer: OPERATOR,
+            _claimSubject: SP_ADDRESS,
+            _ids: [BigNumber.from(3), BigNumber.from(3)],
+            _values: [BigNumber.from(10), BigNumber.from(10)],
+            _claimData: [_claimData[1], _claimData[1]],
+        });
+        events.claimBatch.push(claim);
+
+        const subjectIds = reconcile(events)
+            .anomalies.filter(a => a.message.startsWith('10 Wh'))
+            .map(a => a.subjectId);
+
+        assert.deepEqual(subjectIds, [
+            `${claim.transactionHash}:1:0`,
+            `${claim.transactionHash}:1:1`,
+        ]);
+    });
+});
+
+describe('inventory', () => {
+    it('classifies every minted certificate and every claim', () => {
+        const events = syntheticEvents();
+        // Certificate 7 is minted outside any agreement or batch.
+        events.transferSingle.push(
+            event(70, 1, {
+                operator: OPERATOR,
+                from: constants.AddressZero,
+                to: OPERATOR,
+                id: BigNumber.from(7),
+                value: BigNumber.from(700),
+            }),
+        );
+        const { inventory, certificates } = reconcile(events);
+
+        assert.deepEqual(
+            inventory.certificates.map(c => [
+                c.tokenId,
+                c.classification,
+                c.mintedValue,
+                c.claimedValue,
+            ]),
+            [
+                ['1', 'in-agreement', '600', '600'],
+                ['2', 'in-agreement', '400', '400'],
+                ['3', 'in-agreement', '300', '300'],
+                ['4', 'batch-only', '400', '0'],
+                ['5', 'batch-only', '500', '500'],
+                ['7', 'orphan', '700', '0'],
+            ],
+        );
+        assert.deepEqual(
+            inventory.claims.map(c => [c.tokenId, c.classification]),
+            [
+                ['1', 'in-agreement'],
+                ['5', 'batch-only'],
+                ['2', 'in-agreement'],
+                ['3', 'in-agreement'],
+                ['2', 'in-agreement'],
+            ],
+        );
+        // The reconciliation itself still leaves out certificates in no agreement.
+        assert.ok(!certificates.some(c => ['4', '5', '7'].includes(c.tokenId)));
+    });
+});
@@ -0,0 +1,76 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber, ethers } from 'ethers';
+
+import { checkBalances } from '../balances';
+import { reconcile } from '../reconcile';
+import { setLogLevel } from '../logger';
+import { BalanceRegistry } from '../types';
+import { BUYER, syntheticEvents } from './synthetic-events';
+
+/*
+ * Balances reconciliation tests, against a stand-in for the RegistryExtended contract
+ */
+
+// Answer the batch view calls with the given balances, recording the block tag of each call.
+const fakeRegistry = (
+    holderBalances: BalanceRegistry,
+    claimedBalances: BalanceRegistry,
+    blockTags: unknown[],
+) => {
+    const balanceOfBatch =
+        (balances: BalanceRegistry) =>
+        async (
+            accounts: string[],
+            ids: string[],
+            overrides: { blockTag?: unknown },
+        ) => {
+            blockTags.push(overrides.blockTag);
+            return ids.map(
+                (id, i) => balances[id]?.[accounts[i]] ?? BigNumber.from(0),
+            );
+        };
+
+    return {
+        balanceOfBatch: balanceOfBatch(holderBalances),
+        claimedBalanceOfBatch: balanceOfBatch(claimedBalances),
+    } as unknown as ethers.Contract;
+};
+
+describe('checkBalances', () => {
+    before(() => {
+        setLogLevel('error');
+    });
+
+    it('reads the contract balances at the last synced block', async () => {
+        const events = syntheticEvents();
+        const reconciliation = reconcile(events);
+        const blockTags: unknown[] = [];
+        // Certificate 1 was transferred away from the buyer after the last synced block.
+        const holderBalances = {
+            ...reconciliation.holderBalances,
+            '1': { [BUYER]: BigNumber.from(0) },
+        };
+
+        const mismatches = await checkBalances(
+            fakeRegistry(
+                holderBalances,
+                reconciliation.claimedBalances,
+                blockTags,
+            ),
+            reconciliation,
+            events.lastSyncedBlock,
+        );
+
+        assert.deepEqual(blockTags, [53, 53]);
+        assert.deepEqual(mismatches, [
+            {
+                tokenId: '1',
+                address: BUYER,
+                balanceType: 'holder',
+                expected: reconciliation.holderBalances['1'][BUYER].toString(),
+                onChain: '0',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { utils } from 'ethers';
+import { ClaimDataCoder } from '@zero-labs/tokenization-contracts';
+
+import { decodeClaimData } from '../claim-data';
+
+/*
+ * Claim data decoding tests
+ */
+
+const CLAIM_DATA = {
+    beneficiary: '47b98763-1bcc-5efc-9e2c-8abd794ef3be;f0678914',
+    region: '',
+    countryCode: 'US',
+    periodStartDate: '2021-01-01T00:00:00Z',
+    periodEndDate: '2021-12-31T00:00:00Z',
+    purpose: 'Decarbonization',
+    consumptionEntityID: '1e4cf6ff-e673-5c18-9ec5-c97a284806b5;f0678914',
+    proofID: '90b7cb7c-ce26-441e-8a54-587a4e9f044e',
+    data: '',
+};
+
+// Older claims hold the encoding of a string[] of 8 items, without the offset word in front of it.
+const encodeLegacy = (values: string[]) =>
+    `0x${utils.defaultAbiCoder.encode(['string[]'], [values]).slice(66)}`;
+
+describe('decodeClaimData', () => {
+    it('decodes a tuple of strings', () => {
+        assert.deepEqual(decodeClaimData(ClaimDataCoder.encode(CLAIM_DATA)), {
+            claimDataDecoded: CLAIM_DATA,
+            decodeStatus: 'ok',
+            decodeWarnings: [],
+        });
+    });
+
+    it('decodes a length-prefixed string array without shifting fields', () => {
+        const { data, ...legacyClaimData } = CLAIM_DATA;
+        assert.deepEqual(
+            decodeClaimData(encodeLegacy(Object.values(legacyClaimData))),
+            {
+                claimDataDecoded: CLAIM_DATA,
+                decodeStatus: 'legacy-array',
+                decodeWarnings: [],
+            },
+        );
+    });
+
+    it('recovers length-prefixed string arrays of other lengths', () => {
+        const { claimDataDecoded, decodeStatus, decodeWarnings } =
+            decodeClaimData(encodeLegacy(Object.values(CLAIM_DATA)));
+
+        assert.deepEqual(claimDataDecoded, CLAIM_DATA);
+        assert.equal(decodeStatus, 'recovered');
+        assert.deepEqual(decodeWarnings, [
+            'decoded as a length-prefixed string array of 9 items',
+        ]);
+    });
+
+    it('keeps warning about the legacy layout along with other warnings', () => {
+        const { data, ...legacyClaimData } = CLAIM_DATA;
+        const { decodeStatus, decodeWarnings } = decodeClaimData(
+            `${encodeLegacy(Object.values(legacyClaimData))}${'00'.repeat(32)}`,
+        );
+
+        assert.equal(decodeStatus, 'recovered');
+        assert.deepEqual(decodeWarnings, [
+            'decoded as a length-prefixed string array of 8 items',
+            '32 trailing bytes ignored',
+        ]);
+    });
+
+    it('warns about trailing bytes', () => {
+        const { claimDataDecoded, decodeStatus, decodeWarnings } =
+            decodeClaimData(
+                `${ClaimDataCoder.encode(CLAIM_DATA)}${'00'.repeat(32)}`,
+            );
+
+        assert.deepEqual(claimDataDecoded, CLAIM_DATA);
+        assert.equal(decodeStatus, 'recovered');
+        assert.deepEqual(decodeWarnings, ['32 trailing bytes ignored']);
+    });
+
+    it('removes control characters', () => {
+        const { claimDataDecoded, decodeStatus, decodeWarnings } =
+            decodeClaimData(
+                ClaimDataCoder.encode({
+                    ...CLAIM_DATA,
+                    purpose: 'Decarb\u0001',
+                }),
+            );
+
+        assert.equal(claimDataDecoded.purpose, 'Decarb');
+        assert.equal(decodeStatus, 'recovered');
+        assert.deepEqual(decodeWarnings, [
+            'control characters removed from purpose',
+        ]);
+    });
+
+    it('fails without throwing on malformed payloads', () => {
+        for (const claimData of [
+            '0x',
+            '0x1234',
+            'not hex',
+            '0x' + 'ff'.repeat(320),
+        ]) {
+            const { claimDataDecoded, decodeStatus, decodeWarnings } =
+                decodeClaimData(claimData);
+
+            assert.equal(decodeStatus, 'failed');
+            assert.equal(claimDataDecoded.beneficiary, '');
+            assert.ok(decodeWarnings.length > 0);
+            assert.ok(decodeWarnings.every(w => !w.includes(',')));
+        }
+    });
+});
@@ -0,0 +1,163 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+    filterEwcEvents,
+    filterReconciliation,
+    isEventFilterEmpty,
+} from '../event-filter';
+import { reconcile } from '../reconcile';
+import { setLogLevel } from '../logger';
+import {
+    BATCH_1,
+    SECOND_AGREEMENT,
+    VALID_AGREEMENT,
+    blockTimestamp,
+    syntheticEvents,
+} from './synthetic-events';
+
+/*
+ * Block and date range filtering tests
+ */
+
+const blockDate = (blockNumber: number) =>
+    new Date(blockTimestamp(blockNumber) * 1000);
+
+describe('filterEwcEvents', () => {
+    before(() => {
+        setLogLevel('error');
+    });
+
+    it('times every record with the block it was emitted in', () => {
+        const { agreements, batches, certificates, claims, transfers } =
+            reconcile(syntheticEvents());
+
+        assert.deepEqual(
+            agreements.map(a => [a.agreementAddress, a.timestamp]),
+            [
+                [VALID_AGREEMENT, '2022-01-11T00:00:00.000Z'],
+                [SECOND_AGREEMENT, '2022-01-12T00:00:00.000Z'],
+            ],
+        );
+        assert.equal(
+            batches.find(b => b.batchId === BATCH_1)?.timestamp,
+            '2022-02-09T00:00:00.000Z',
+        );
+        assert.ok(
+            [...certificates, ...claims, ...transfers].every(
+                r => r.timestamp === blockDate(r.blockNumber).toISOString(),
+            ),
+        );
+    });
+
+    it('leaves the timestamp empty when the block has not been synced', () => {
+        const events = syntheticEvents();
+        events.blockTimestamps = {};
+
+        assert.ok(reconcile(events).claims.every(c => c.timestamp === ''));
+    });
+
+    it('keeps the events within a block range', () => {
+        const events = filterEwcEvents(syntheticEvents(), {
+            fromBlock: 11,
+            toBlock: 31,
+        });
+
+        assert.deepEqual(events.agreementsDeployed, []);
+        assert.deepEqual(
+            events.agreementFilled.map(e => e.blockNumber),
+            [30, 31],
+        );
+        assert.deepEqual(events.claimSingle, []);
+    });
+
+    it('keeps the claims in the range on certificates minted before it', () => {
+        const reconciliation = reconcile(syntheticEvents());
+        const { agreements, certificates, claims, storageProviders } =
+            filterReconciliation(reconciliation, { fromBlock: 50 });
+
+        // Certificates are minted on blocks 20 to 23 and claimed on blocks 50 to 53.
+        assert.deepEqual(agreements, []);
+        assert.deepEqual(certificates, []);
+        assert.deepEqual(claims, reconciliation.claims);
+        assert.deepEqual(storageProviders, reconciliation.storageProviders);
+        assert.deepEqual(
+            filterReconciliation(reconciliation, { toBlock: 51 }).claims.map(
+                c => [c.tokenId, c.blockNumber],
+            ),
+            [['1', 50]],
+        );
+    });
+
+    it('keeps the records within a block range', () => {
+        const { agreements, certificates, claims, inventory } =
+            filterReconciliation(reconcile(syntheticEvents()), {
+                fromBlock: 11,
+                toBlock: 31,
+            });
+
+        // The agreements keep the fills made after the range.
+        assert.deepEqual(
+            agreements.map(a => [a.agreementAddress, a.filledAmount]),
+            [
+                [VALID_AGREEMENT, '1000'],
+                [SECOND_AGREEMENT, '300'],
+            ],
+        );
+        assert.deepEqual(
+            certificates.map(c => c.tokenId),
+            ['1', '2', '2', '3'],
+        );
+        assert.deepEqual(claims, []);
+        assert.deepEqual(
+            inventory.certificates.map(c => c.tokenId),
+            ['1', '2', '3', '4', '5'],
+        );
+    });
+
+    it('keeps the records within a date range, bounds included', () => {
+        const reconciliation = reconcile(syntheticEvents());
+
+        assert.deepEqual(
+            filterReconciliation(reconciliation, {
+                fromDate: blockDate(11),
+                toDate: blockDate(31),
+            }),
+            filterReconciliation(reconciliation, {
+                fromBlock: 11,
+                toBlock: 31,
+            }),
+        );
+    });
+
+    it('keeps the events within a date range, bounds included', () => {
+        const byDate = filterEwcEvents(syntheticEvents(), {
+            fromDate: blockDate(11),
+            toDate: blockDate(31),
+        });
+        const byBlock = filterEwcEvents(syntheticEvents(), {
+            fromBlock: 11,
+            toBlock: 31,
+        });
+
+        assert.deepEqual(byDate, byBlock);
+    });
+
+    it('leaves out the events without timestamp when filtering by date', () => {
+        const events = syntheticEvents();
+        events.blockTimestamps = {};
+        const filtered = filterEwcEvents(events, { fromDate: blockDate(0) });
+
+        assert.deepEqual(filtered.transferSingle, []);
+        assert.equal(
+            filterEwcEvents(events, { fromBlock: 0 }).transferSingle.length,
+            2,
+        );
+    });
+
+    it('tells whether a filter has any bound', () => {
+        assert.ok(isEventFilterEmpty({}));
+        assert.ok(isEventFilterEmpty({ fromBlock: undefined }));
+        assert.ok(!isEventFilterEmpty({ toBlock: 0 }));
+    });
+});
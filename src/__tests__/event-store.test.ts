@@ -0,0 +1,279 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber, ethers, utils } from 'ethers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { syncEvents } from '../event-store';
+import { syncAgreementsData } from '../fetch';
+import { DEFAULT_LOG_FETCHER_OPTIONS, LogFetcherOptions } from '../log-fetcher';
+import { setLogLevel } from '../logger';
+
+/*
+ * Incremental sync and reorganisation tests, against a stand-in for a chain and its contracts
+ */
+
+const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000F001';
+
+// Chain whose blocks hold one Ping log every 5 blocks. Forking a block changes its hash and the hash of its log.
+const fakeChain = (head: number) => {
+    const forks: { [blockNumber: number]: number } = {};
+    const blockHash = (blockNumber: number) =>
+        utils.id(`block-${blockNumber}-${forks[blockNumber] ?? 0}`);
+
+    return {
+        head,
+        blockHash,
+        reorganise: (fromBlock: number, toBlock: number) => {
+            for (let n = fromBlock; n <= toBlock; n++) {
+                forks[n] = (forks[n] ?? 0) + 1;
+            }
+        },
+    };
+};
+
+type FakeChain = ReturnType<typeof fakeChain>;
+
+// Each run gets its own provider, as block hashes are cached per provider.
+const fakeProvider = (chain: FakeChain) =>
+    ({
+        getBlockNumber: async () => chain.head,
+        getBlock: async (blockNumber: number) =>
+            blockNumber <= chain.head
+                ? { hash: chain.blockHash(blockNumber) }
+                : null,
+    } as unknown as ethers.providers.Provider);
+
+// Contract emitting the Ping logs of the chain, recording the ranges it is queried over.
+const fakeContract = (chain: FakeChain) => {
+    const queries: [number, number][] = [];
+    const contract = {
+        address: CONTRACT_ADDRESS,
+        provider: fakeProvider(chain),
+        filters: { Ping: () => ({}) },
+        queryFilter: async (
+            filter: ethers.EventFilter,
+            fromBlock: number,
+            toBlock: number,
+        ) => {
+            queries.push([fromBlock, toBlock]);
+            const logs = [];
+            for (let n = fromBlock; n <= toBlock; n++) {
+                if (n % 5 === 0) {
+                    logs.push({
+                        blockNumber: n,
+                        blockHash: chain.blockHash(n),
+                        transactionIndex: 0,
+                        removed: false,
+                        address: CONTRACT_ADDRESS,
+                        data: '0x',
+                        topics: [],
+                        transactionHash: utils.id(`tx-${chain.blockHash(n)}`),
+                        logIndex: 0,
+                    });
+                }
+            }
+            return logs;
+        },
+        interface: {
+            parseLog: () => ({ name: 'Ping', signature: 'Ping()', args: [] }),
+        },
+    } as unknown as ethers.Contract;
+
+    return { contract, queries };
+};
+
+const options = (fromBlock: number, toBlock: number): LogFetcherOptions => ({
+    ...DEFAULT_LOG_FETCHER_OPTIONS,
+    fromBlock,
+    toBlock,
+    retryDelayMs: 0,
+});
+
+describe('syncEvents', () => {
+    let storeDir: string;
+
+    before(() => {
+        setLogLevel('error');
+    });
+
+    const readStore = () =>
+        JSON.parse(
+            fs
+                .readFileSync(
+                    path.resolve(
+                        storeDir,
+                        CONTRACT_ADDRESS.toLowerCase(),
+                        'Ping.json',
+                    ),
+                )
+                .toString(),
+        );
+
+    // Sync the Ping events on a new run, returning the ranges fetched and the block hashes of the events.
+    const sync = async (
+        chain: FakeChain,
+        fromBlock: number,
+        toBlock: number,
+    ) => {
+        const { contract, queries } = fakeContract(chain);
+        const events = await syncEvents(
+            storeDir,
+            contract,
+            'Ping',
+            options(fromBlock, toBlock),
+        );
+        return {
+            queries,
+            blocks: events.map(e => [e.blockNumber, e.blockHash]),
+        };
+    };
+
+    const blocksOn = (chain: FakeChain, blockNumbers: number[]) =>
+        blockNumbers.map(n => [n, chain.blockHash(n)]);
+
+    before(() => {
+        storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ewc-event-store-'));
+    });
+
+    after(() => {
+        fs.rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    it('rolls back and fetches again the logs of reorganised blocks', async () => {
+        const chain = fakeChain(40);
+        await sync(chain, 0, 20);
+        chain.reorganise(15, 20);
+
+        const { queries, blocks } = await sync(chain, 0, 30);
+
+        assert.deepEqual(queries, [[11, 30]]);
+        assert.deepEqual(blocks, blocksOn(chain, [0, 5, 10, 15, 20, 25, 30]));
+        assert.equal(readStore().lastSyncedBlock, 30);
+        assert.equal(readStore().lastSyncedBlockHash, chain.blockHash(30));
+    });
+
+    it('rolls back blocks without logs through the last synced block hash', async () => {
+        const chain = fakeChain(40);
+        await sync(chain, 0, 33);
+        assert.equal(readStore().lastSyncedBlockHash, chain.blockHash(33));
+        // Blocks 31 to 33 hold no log, only the checkpoint tells they changed.
+        chain.reorganise(31, 33);
+
+        const { queries, blocks } = await sync(chain, 0, 35);
+
+        assert.deepEqual(queries, [[31, 35]]);
+        assert.deepEqual(
+            blocks,
+            blocksOn(chain, [0, 5, 10, 15, 20, 25, 30, 35]),
+        );
+        assert.equal(readStore().lastSyncedBlockHash, chain.blockHash(35));
+    });
+
+    it('backfills the blocks before the first synced one', async () => {
+        fs.rmSync(storeDir, { recursive: true, force: true });
+        const chain = fakeChain(40);
+        await sync(chain, 10, 20);
+        assert.equal(readStore().firstSyncedBlock, 10);
+
+        const { queries, blocks } = await sync(chain, 0, 20);
+
+        assert.deepEqual(queries, [[0, 9]]);
+        assert.deepEqual(blocks, blocksOn(chain, [0, 5, 10, 15, 20]));
+        assert.equal(readStore().firstSyncedBlock, 0);
+        assert.equal(readStore().lastSyncedBlock, 20);
+    });
+
+    it('syncs again from the first requested block when every stored block is reorganised', async () => {
+        fs.rmSync(storeDir, { recursive: true, force: true });
+        const chain = fakeChain(40);
+        await sync(chain, 10, 20);
+        chain.reorganise(10, 20);
+
+        const { queries, blocks } = await sync(chain, 10, 25);
+
+        assert.deepEqual(queries, [[10, 25]]);
+        assert.deepEqual(blocks, blocksOn(chain, [10, 15, 20, 25]));
+        assert.equal(readStore().firstSyncedBlock, 10);
+    });
+});
+
+describe('syncAgreementsData', () => {
+    let cacheFile: string;
+
+    before(() => {
+        setLogLevel('error');
+        cacheFile = path.resolve(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'ewc-agreements-data-')),
+            'agreements-data-cache.csv',
+        );
+    });
+
+    after(() => {
+        fs.rmSync(path.dirname(cacheFile), { recursive: true, force: true });
+    });
+
+    // Agreement factory returning the same data for every agreement, recording the agreements it is asked for.
+    const fakeAgreementFactory = (chain: FakeChain) => {
+        const requests: string[] = [];
+        const contract = {
+            provider: fakeProvider(chain),
+            agreementData: async (agreementAddress: string) => {
+                requests.push(agreementAddress);
+                return {
+                    buyer: '0x00000000000000000000000000000000000000b1',
+                    seller: '0x00000000000000000000000000000000000000a1',
+                    amount: BigNumber.from(1000),
+                    metadata: '0x',
+                    valid: true,
+                };
+            },
+        } as unknown as ethers.Contract;
+
+        return { contract, requests };
+    };
+
+    const agreementSigned = (
+        chain: FakeChain,
+        blockNumber: number,
+        agreementAddress: string,
+    ) =>
+        ({
+            blockNumber,
+            blockHash: chain.blockHash(blockNumber),
+            args: { agreementAddress },
+        } as unknown as ethers.Event);
+
+    it('fetches again the data of agreements signed in reorganised blocks', async () => {
+        const chain = fakeChain(40);
+        const first = fakeAgreementFactory(chain);
+        await syncAgreementsData(cacheFile, first.contract, [
+            agreementSigned(chain, 10, '0xa1'),
+            agreementSigned(chain, 20, '0xa2'),
+        ]);
+        assert.deepEqual(first.requests, ['0xa1', '0xa2']);
+        chain.reorganise(20, 20);
+
+        const second = fakeAgreementFactory(chain);
+        await syncAgreementsData(cacheFile, second.contract, [
+            agreementSigned(chain, 10, '0xa1'),
+            agreementSigned(chain, 20, '0xa2'),
+        ]);
+
+        assert.deepEqual(second.requests, ['0xa2']);
+        assert.deepEqual(
+            fs
+                .readFileSync(cacheFile)
+                .toString()
+                .split(/\r?\n/)
+                .filter(row => row)
+                .slice(1)
+                .map(row => row.split(',').slice(0, 3)),
+            [
+                ['10', chain.blockHash(10), '0xa1'],
+                ['20', chain.blockHash(20), '0xa2'],
+            ],
+        );
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber, utils } from 'ethers';
+
+import {
+    buildAgreementLifecycles,
+    summarizeAgreementLifecycles,
+} from '../lifecycle';
+import {
+    BUYER,
+    INVALID_AGREEMENT,
+    SECOND_AGREEMENT,
+    SELLER,
+    STALE_AGREEMENT,
+    VALID_AGREEMENT,
+    event,
+    syntheticEvents,
+} from './synthetic-events';
+
+/*
+ * Agreement lifecycle tests
+ */
+
+const UNSIGNED_AGREEMENT = '0x000000000000000000000000000000000000a004';
+
+// Agreement address, state and the blocks of each transition.
+const transitions = (events = syntheticEvents()) =>
+    buildAgreementLifecycles(events).map(l => [
+        l.agreementAddress,
+        l.state,
+        l.stateBlock,
+        [
+            l.deployedBlock,
+            l.signedBlock,
+            l.partiallyFilledBlock,
+            l.fullyFilledBlock,
+            l.claimedBlock,
+            l.invalidatedBlock,
+        ],
+    ]);
+
+describe('buildAgreementLifecycles', () => {
+    it('records the block of each transition', () => {
+        assert.deepEqual(transitions(), [
+            [VALID_AGREEMENT, 'fully-filled', 31, [10, 11, 30, 31, null, null]],
+            [
+                SECOND_AGREEMENT,
+                'fully-filled',
+                32,
+                [10, 12, null, 32, null, null],
+            ],
+            [
+                INVALID_AGREEMENT,
+                'invalidated',
+                14,
+                [10, 13, null, 33, null, 14],
+            ],
+            [STALE_AGREEMENT, 'invalidated', 36, [10, 15, null, 35, null, 36]],
+        ]);
+    });
+
+    it('tracks deployed agreements that were never signed', () => {
+        const events = syntheticEvents();
+        events.agreementsDeployed.push(
+            event(70, 1, { agreements: [UNSIGNED_AGREEMENT] }),
+        );
+
+        const [lifecycle] = buildAgreementLifecycles(events).filter(
+            l => l.agreementAddress === UNSIGNED_AGREEMENT,
+        );
+        assert.equal(lifecycle.state, 'deployed');
+        assert.equal(lifecycle.stateBlock, 70);
+        assert.equal(lifecycle.signedAmount, '0');
+    });
+
+    it('reaches the claimed state whatever the filled amount', () => {
+        const events = syntheticEvents();
+        events.agreementSigned.push(
+            event(70, 1, {
+                agreementAddress: UNSIGNED_AGREEMENT,
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(500),
+            }),
+        );
+        events.agreementFilled.push(
+            event(71, 1, {
+                agreementAddress: UNSIGNED_AGREEMENT,
+                certificateId: BigNumber.from(5),
+                amount: BigNumber.from(200),
+            }),
+        );
+        events.agreementClaimed.push(
+            event(72, 1, {
+                agreementAddress: UNSIGNED_AGREEMENT,
+                claimData: '0x',
+            }),
+            event(73, 1, {
+                agreementAddress: VALID_AGREEMENT,
+                claimData: '0x',
+            }),
+        );
+
+        assert.deepEqual(
+            transitions(events).filter(([address]) =>
+                [VALID_AGREEMENT, UNSIGNED_AGREEMENT].includes(
+                    address as string,
+                ),
+            ),
+            [
+                [VALID_AGREEMENT, 'claimed', 73, [10, 11, 30, 31, 73, null]],
+                [
+                    UNSIGNED_AGREEMENT,
+                    'claimed',
+                    72,
+                    [null, 70, 71, null, 72, null],
+                ],
+            ],
+        );
+    });
+
+    it('invalidates agreements whose data is invalid without any event', () => {
+        const events = syntheticEvents();
+        events.agreementInvalidated = [];
+
+        const lifecycle = buildAgreementLifecycles(events).find(
+            l => l.agreementAddress === INVALID_AGREEMENT,
+        );
+        assert.equal(lifecycle?.state, 'invalidated');
+        assert.equal(lifecycle?.stateBlock, null);
+        assert.equal(lifecycle?.stateTimestamp, '');
+    });
+});
+
+describe('summarizeAgreementLifecycles', () => {
+    it('counts the agreements stuck in each state', () => {
+        assert.deepEqual(
+            summarizeAgreementLifecycles(
+                buildAgreementLifecycles(syntheticEvents()),
+            ).map(s => [
+                s.state,
+                s.agreementCount,
+                s.filledAmount,
+                s.oldestAgreementAddress,
+                s.oldestStateBlock,
+            ]),
+            [
+                ['deployed', 0, '0', '', null],
+                ['signed', 0, '0', '', null],
+                ['partially-filled', 0, '0', '', null],
+                ['fully-filled', 2, '1300', VALID_AGREEMENT, 31],
+                ['claimed', 0, '0', '', null],
+                ['invalidated', 2, '900', INVALID_AGREEMENT, 14],
+            ],
+        );
+    });
+});
@@ -0,0 +1,147 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+
+import {
+    DEFAULT_LOG_FETCHER_OPTIONS,
+    LogFetcherOptions,
+    fetchEvents,
+} from '../log-fetcher';
+import { setLogLevel } from '../logger';
+
+/*
+ * Block-range chunked log fetching tests, against a stand-in for a contract
+ */
+
+// Stand-in contract returning one event per block, and recording the ranges it is queried over.
+const fakeContract = (
+    chainHead: number,
+    failure: (fromBlock: number, toBlock: number) => Error | undefined,
+) => {
+    const queries: [number, number][] = [];
+    const contract = {
+        provider: { getBlockNumber: async () => chainHead },
+        queryFilter: async (
+            filter: ethers.EventFilter,
+            fromBlock: number,
+            toBlock: number,
+        ) => {
+            queries.push([fromBlock, toBlock]);
+            const error = failure(fromBlock, toBlock);
+            if (error) {
+                throw error;
+            }
+            return Array.from(
+                { length: toBlock - fromBlock + 1 },
+                (_, i) => ({ blockNumber: fromBlock + i } as ethers.Event),
+            );
+        },
+    } as unknown as ethers.Contract;
+
+    return { contract, queries };
+};
+
+const rpcError = (message: string, code?: string) =>
+    Object.assign(new Error(message), { code });
+
+const options = (
+    overrides: Partial<LogFetcherOptions> = {},
+): LogFetcherOptions => ({
+    ...DEFAULT_LOG_FETCHER_OPTIONS,
+    blockWindow: 10,
+    retryDelayMs: 0,
+    ...overrides,
+});
+
+describe('fetchEvents', () => {
+    before(() => {
+        setLogLevel('error');
+    });
+
+    it('splits the block range in windows up to the chain head', async () => {
+        const { contract, queries } = fakeContract(24, () => undefined);
+
+        const events = await fetchEvents(contract, {}, options());
+
+        assert.deepEqual(queries, [
+            [0, 9],
+            [10, 19],
+            [20, 24],
+        ]);
+        assert.deepEqual(
+            events.map(e => e.blockNumber),
+            Array.from({ length: 25 }, (_, i) => i),
+        );
+    });
+
+    it('halves the window each time the RPC rejects a range as too large', async () => {
+        const { contract, queries } = fakeContract(9, (fromBlock, toBlock) =>
+            toBlock - fromBlock + 1 > 3
+                ? rpcError('query returned more than 10000 results')
+                : undefined,
+        );
+
+        const events = await fetchEvents(contract, {}, options());
+
+        assert.deepEqual(queries, [
+            [0, 9],
+            [0, 4],
+            [0, 2],
+            [3, 5],
+            [6, 8],
+            [9, 9],
+        ]);
+        assert.equal(events.length, 10);
+    });
+
+    it('fails once a single block is rejected as too large', async () => {
+        const { contract } = fakeContract(9, () =>
+            rpcError('block range too large'),
+        );
+
+        await assert.rejects(
+            fetchEvents(contract, {}, options()),
+            /block range too large/,
+        );
+    });
+
+    it('retries requests failing with a transient error', async () => {
+        let failures = 2;
+        const { contract, queries } = fakeContract(4, () =>
+            failures-- > 0 ? rpcError('timeout', 'TIMEOUT') : undefined,
+        );
+
+        const events = await fetchEvents(contract, {}, options());
+
+        assert.deepEqual(queries, [
+            [0, 4],
+            [0, 4],
+            [0, 4],
+        ]);
+        assert.equal(events.length, 5);
+    });
+
+    it('gives up after the maximum number of retries', async () => {
+        const { contract, queries } = fakeContract(4, () =>
+            rpcError('429 Too Many Requests'),
+        );
+
+        await assert.rejects(
+            fetchEvents(contract, {}, options({ maxRetries: 3 })),
+            /Too Many Requests/,
+        );
+        assert.equal(queries.length, 4);
+    });
+
+    it('does not retry other errors', async () => {
+        const { contract, queries } = fakeContract(4, () =>
+            rpcError('execution reverted', 'CALL_EXCEPTION'),
+        );
+
+        await assert.rejects(
+            fetchEvents(contract, {}, options()),
+            /execution reverted/,
+        );
+        assert.equal(queries.length, 1);
+    });
+});
@@ -0,0 +1,376 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+
+import { reconcile } from '../reconcile';
+import { exportEwcData, printEwcSummary } from '../writers';
+import {
+    buildStorageProviderReports,
+    parseMinerId,
+    uniqueClaims,
+} from '../storage-providers';
+import { setLogLevel } from '../logger';
+import { EwcData, Reconciliation } from '../types';
+import {
+    BATCH_1,
+    INVALID_AGREEMENT,
+    SECOND_AGREEMENT,
+    STALE_AGREEMENT,
+    VALID_AGREEMENT,
+    syntheticEvents,
+} from './synthetic-events';
+
+/*
+ * Golden-output tests of the reconciliation
+ */
+
+const GOLDEN_DIR = path.resolve(__dirname, 'golden');
+
+// Run with UPDATE_GOLDEN=1 to rewrite the golden files from the current outputs.
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const assertGolden = (name: string, actual: string) => {
+    const goldenFile = path.resolve(GOLDEN_DIR, name);
+    if (UPDATE_GOLDEN) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        fs.writeFileSync(goldenFile, actual);
+        return;
+    }
+    assert.equal(actual, fs.readFileSync(goldenFile).toString(), name);
+};
+
+// BigNumber balances are serialised as decimal strings.
+const toJSON = (reconciliation: Reconciliation) =>
+    `${JSON.stringify(
+        reconciliation,
+        (key, value) =>
+            value?.type === 'BigNumber' ? BigInt(value.hex).toString() : value,
+        4,
+    )}\n`;
+
+describe('reconcile', () => {
+    let reconciliation: Reconciliation;
+
+    before(() => {
+        setLogLevel('error');
+        reconciliation = reconcile(syntheticEvents());
+    });
+
+    it('matches the golden JSON output', () => {
+        assertGolden('reconciliation.json', toJSON(reconciliation));
+    });
+
+    it('gives the same output for the same events', () => {
+        assert.deepEqual(reconcile(syntheticEvents()), reconciliation);
+    });
+
+    it('skips certificates that are not in any agreement', () => {
+        const tokenIds = reconciliation.certificates.map(c => c.tokenId);
+        assert.ok(!tokenIds.includes('5'));
+        assert.ok(!reconciliation.claims.some(c => c.tokenId === '5'));
+    });
+
+    it('excludes invalid agreements and the certificates only they contain', () => {
+        const addresses = reconciliation.agreements.map(
+            a => a.agreementAddress,
+        );
+        assert.deepEqual(addresses, [VALID_AGREEMENT, SECOND_AGREEMENT]);
+        assert.ok(!addresses.includes(INVALID_AGREEMENT));
+        assert.ok(!reconciliation.certificates.some(c => c.tokenId === '4'));
+    });
+
+    it('excludes agreements invalidated after their data was cached', () => {
+        assert.ok(
+            !reconciliation.agreements.some(
+                a => a.agreementAddress === STALE_AGREEMENT,
+            ),
+        );
+        assert.ok(!reconciliation.certificates.some(c => c.tokenId === '5'));
+        assert.equal(
+            reconciliation.inventory.certificates.find(c => c.tokenId === '5')
+                ?.classification,
+            'batch-only',
+        );
+    });
+
+    it('sums multiple fills of an agreement', () => {
+        const agreement = reconciliation.agreements.find(
+            a => a.agreementAddress === VALID_AGREEMENT,
+        )!;
+        assert.deepEqual(agreement.certificateIds, ['1', '2']);
+        assert.equal(agreement.signedAmount, '1000');
+        assert.equal(agreement.filledAmount, '1000');
+    });
+
+    it('reports certificates and their claims under every batch they are in', () => {
+        const batchIdsOfCertificate2 = reconciliation.certificates
+            .filter(c => c.tokenId === '2')
+            .map(c => c.batchId);
+        assert.equal(batchIdsOfCertificate2.length, 2);
+        assert.equal(new Set(batchIdsOfCertificate2).size, 2);
+        // Both claims on certificate 2 are reported once per batch.
+        assert.equal(
+            reconciliation.claims.filter(c => c.tokenId === '2').length,
+            4,
+        );
+    });
+
+    it('reports claimed Wh per storage provider', () => {
+        assert.deepEqual(
+            reconciliation.storageProviders.map(
+                ({ minerId, claimedWh, claimCount, certificateIds }) => ({
+                    minerId,
+                    claimedWh,
+                    claimCount,
+                    certificateIds,
+                }),
+            ),
+            [
+                {
+                    minerId: 'f01234',
+                    claimedWh: '450',
+                    claimCount: 2,
+                    certificateIds: ['2', '3'],
+                },
+                // The claim of certificate 2 is counted once although the certificate is in two batches, and its miner
+                // ID is read from the consumption entity. The claim of certificate 5 is reported although the
+                // certificate is in no agreement.
+                {
+                    minerId: 'f0678914',
+                    claimedWh: '1350',
+                    claimCount: 3,
+                    certificateIds: ['1', '5', '2'],
+                },
+            ],
+        );
+    });
+});
+
+describe('parseMinerId', () => {
+    it('reads the miner ID after the separator', () => {
+        assert.equal(parseMinerId('47b98763-2f5b;f0678914'), 'f0678914');
+        assert.equal(parseMinerId('f01234'), 'f01234');
+        assert.equal(parseMinerId('47b98763-2f5b'), undefined);
+        assert.equal(parseMinerId(''), undefined);
+    });
+});
+
+describe('uniqueClaims', () => {
+    it('keeps identical claims made in the same event', () => {
+        const { claims, inventory, batches } = reconcile(syntheticEvents());
+        const [claim] = uniqueClaims(claims);
+        const sameEntry = { ...claim };
+        const nextEntry = { ...claim, entryIndex: claim.entryIndex + 1 };
+
+        assert.deepEqual(uniqueClaims([claim, sameEntry, nextEntry]), [
+            sameEntry,
+            nextEntry,
+        ]);
+        const [report] = buildStorageProviderReports(
+            [claim, nextEntry],
+            inventory.certificates,
+            batches,
+        );
+        assert.equal(report.claimCount, 2);
+        assert.equal(
+            report.claimedWh,
+            (BigInt(claim.value) * BigInt(2)).toString(),
+        );
+    });
+});
+
+describe('printEwcSummary', () => {
+    after(() => {
+        mock.restoreAll();
+        setLogLevel('error');
+    });
+
+    it('prints totals counting certificates in several batches once', () => {
+        const events = syntheticEvents();
+        const ewcData = { ...reconcile(events), events, balanceMismatches: [] };
+        setLogLevel('info');
+        const info = mock.method(console, 'info', () => undefined);
+        printEwcSummary(ewcData);
+        const printed = info.mock.calls.map(call => call.arguments[0]);
+
+        // Certificate 2 is in both batches: 1700 Wh minted and claimed when summed per batch.
+        for (const line of [
+            '\tAGREEMENT SIGNED VALUE: 1.3 kWh (1300 Wh)\n',
+            '\tAGREEMENT FILLED VALUE: 1.3 kWh (1300 Wh)\n',
+            '\tMINTED VALUE: 1.3 kWh (1300 Wh)\n',
+            '\tCLAIMED VALUE: 1.3 kWh (1300 Wh)\n',
+        ]) {
+            assert.ok(printed.includes(line), line);
+        }
+    });
+});
+
+describe('exportEwcData', () => {
+    let outDir: string;
+    let ewcData: EwcData;
+
+    before(async () => {
+        setLogLevel('error');
+        outDir = fs.mkdtempSync(path.resolve(os.tmpdir(), 'ewc-parser-'));
+        const events = syntheticEvents();
+        ewcData = { ...reconcile(events), events, balanceMismatches: [] };
+        await exportEwcData(ewcData, outDir);
+    });
+
+    after(() => {
+        fs.rmSync(outDir, { recursive: true, force: true });
+    });
+
+    it('writes nested objects and arrays in JSON', async () => {
+        await exportEwcData(ewcData, outDir, 'json');
+        const [agreement] = JSON.parse(
+            fs.readFileSync(path.resolve(outDir, 'agreements.json')).toString(),
+        );
+        assert.deepEqual(agreement.certificateIds, ['1', '2']);
+        assert.deepEqual(agreement.energySources, ['SOLAR', 'WIND']);
+        assertGolden(
+            'claims.json',
+            fs.readFileSync(path.resolve(outDir, 'claims.json')).toString(),
+        );
+    });
+
+    it('writes one JSON object per line in NDJSON', async () => {
+        await exportEwcData(ewcData, outDir, 'ndjson');
+        const lines = fs
+            .readFileSync(path.resolve(outDir, 'claims.ndjson'))
+            .toString()
+            .split('\n');
+        assert.equal(lines.pop(), '');
+        assert.deepEqual(
+            lines.map(line => JSON.parse(line)),
+            ewcData.claims,
+        );
+    });
+
+    it('writes the full inventory on demand', async () => {
+        const inventoryDir = path.resolve(outDir, 'inventory');
+        await exportEwcData(ewcData, inventoryDir, 'csv', true);
+        for (const name of ['inventory-certificates', 'inventory-claims']) {
+            assertGolden(
+                `${name}.csv`,
+                fs
+                    .readFileSync(path.resolve(inventoryDir, `${name}.csv`))
+                    .toString(),
+            );
+        }
+        assert.ok(
+            !fs.existsSync(path.resolve(outDir, 'inventory-certificates.csv')),
+        );
+    });
+
+    it('writes Wh columns converted to the unit next to the raw ones', async () => {
+        const unitDir = path.resolve(outDir, 'unit');
+        await exportEwcData(ewcData, unitDir, 'json', false, 'kWh');
+        const [agreement] = JSON.parse(
+            fs
+                .readFileSync(path.resolve(unitDir, 'agreements.json'))
+                .toString(),
+        );
+        assert.deepEqual(Object.entries(agreement).slice(2, 6), [
+            ['signedAmount', '1000'],
+            ['signedAmountkWh', '1'],
+            ['filledAmount', '1000'],
+            ['filledAmountkWh', '1'],
+        ]);
+        const [storageProvider] = JSON.parse(
+            fs
+                .readFileSync(path.resolve(unitDir, 'storage-providers.json'))
+                .toString(),
+        );
+        assert.equal(storageProvider.claimedWh, '450');
+        assert.equal(storageProvider.claimedkWh, '0.45');
+    });
+
+    it('writes a SQLite database with foreign keys and join tables', async () => {
+        await exportEwcData(ewcData, outDir, 'sqlite');
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(
+            fs.readFileSync(path.resolve(outDir, 'ewc-data.sqlite')),
+        );
+        try {
+            assert.deepEqual(db.exec('PRAGMA foreign_key_check;'), []);
+            // Wh claimed per claim subject and batch.
+            const [{ values }] = db.exec(`
+                SELECT claims.claim_subject, batch_certificates.batch_id, SUM(claims.value)
+                FROM claims
+                JOIN batch_certificates ON batch_certificates.token_id = claims.token_id
+                GROUP BY claims.claim_subject, batch_certificates.batch_id
+                ORDER BY claims.claim_subject, batch_certificates.batch_id
+            `);
+            assertGolden(
+                'claimed-per-subject-per-batch.json',
+                `${JSON.stringify(values, null, 4)}\n`,
+            );
+            assert.deepEqual(
+                db.exec(
+                    'SELECT token_id FROM agreement_certificates ORDER BY token_id',
+                )[0].values,
+                [['1'], ['2'], ['3']],
+            );
+            // Batch-only certificates are linked to their batches too, so that their claims are joined.
+            assert.deepEqual(
+                db.exec(`
+                    SELECT claims.token_id, batch_certificates.batch_id, SUM(claims.value)
+                    FROM claims
+                    JOIN batch_certificates ON batch_certificates.token_id = claims.token_id
+                    WHERE claims.classification = 'batch-only'
+                    GROUP BY claims.token_id, batch_certificates.batch_id
+                `)[0].values,
+                [['5', BATCH_1, 500]],
+            );
+            // Claims in no agreement are kept along with their classification.
+            assert.deepEqual(
+                db.exec(
+                    'SELECT token_id, classification FROM claims ORDER BY claim_id',
+                )[0].values,
+                ewcData.inventory.claims.map(c => [
+                    c.tokenId,
+                    c.classification,
+                ]),
+            );
+            assert.ok(
+                ewcData.inventory.claims.some(
+                    c => c.classification !== 'in-agreement',
+                ),
+            );
+            // Amounts are kept as decimal strings, whatever their size.
+            assert.deepEqual(
+                db.exec(
+                    'SELECT DISTINCT typeof(value), typeof(minted_value) FROM claims JOIN certificates USING (token_id)',
+                )[0].values,
+                [['text', 'text']],
+            );
+        } finally {
+            db.close();
+        }
+    });
+
+    for (const name of [
+        'agreements',
+        'batches',
+        'certificates',
+        'claims',
+        'transfers',
+        'custodies',
+        'storage-providers',
+        'balances-reconciliation',
+        'anomalies',
+        'agreement-lifecycles',
+        'agreement-lifecycle-summary',
+    ]) {
+        it(`matches the golden ${name}.csv`, () => {
+            assertGolden(
+                `${name}.csv`,
+                fs.readFileSync(path.resolve(outDir, `${name}.csv`)).toString(),
+            );
+        });
+    }
+});
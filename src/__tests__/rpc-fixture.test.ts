@@ -0,0 +1,111 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import { RecordingProvider, ReplayProvider } from '../rpc-fixture';
+
+/*
+ * Record and replay tests, against a local stand-in for a JSON-RPC node
+ */
+
+const CHAIN_ID = 246;
+const BLOCK_NUMBER = 21_000_000;
+
+// Answer eth_call with an error, and the other requests with fixed results.
+const rpcResponse = (request: { id: number; method: string }) => {
+    switch (request.method) {
+        case 'eth_chainId':
+            return { result: `0x${CHAIN_ID.toString(16)}` };
+        case 'net_version':
+            return { result: `${CHAIN_ID}` };
+        case 'eth_blockNumber':
+            return { result: `0x${BLOCK_NUMBER.toString(16)}` };
+        default:
+            return {
+                error: { code: -32000, message: 'execution reverted' },
+            };
+    }
+};
+
+describe('RecordingProvider and ReplayProvider', () => {
+    let server: http.Server;
+    let rpcUrl: string;
+    let requestCount = 0;
+    let fixtureFile: string;
+
+    before(async () => {
+        fixtureFile = path.resolve(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'ewc-rpc-fixture-')),
+            'fixture.ndjson',
+        );
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                requestCount++;
+                const request = JSON.parse(body);
+                res.setHeader('Content-Type', 'application/json');
+                res.end(
+                    JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: request.id,
+                        ...rpcResponse(request),
+                    }),
+                );
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+        fs.rmSync(path.dirname(fixtureFile), { recursive: true, force: true });
+    });
+
+    it('replays the recorded responses and errors without reaching the network', async () => {
+        const recording = new RecordingProvider(rpcUrl, fixtureFile);
+        assert.equal(await recording.getBlockNumber(), BLOCK_NUMBER);
+        const recordedError = await recording
+            .send('eth_call', [{ to: '0x' }, 'latest'])
+            .catch((err: Error) => err);
+        assert.ok(recordedError instanceof Error);
+
+        const recordedRequestCount = requestCount;
+        const replay = new ReplayProvider(fixtureFile);
+        assert.equal(await replay.getBlockNumber(), BLOCK_NUMBER);
+        assert.equal((await replay.getNetwork()).chainId, CHAIN_ID);
+        await assert.rejects(
+            replay.send('eth_call', [{ to: '0x' }, 'latest']),
+            (err: Error & { code?: unknown }) => {
+                assert.equal(err.message, recordedError.message);
+                assert.equal(
+                    err.code,
+                    (recordedError as Error & { code?: unknown }).code,
+                );
+                return true;
+            },
+        );
+        assert.equal(requestCount, recordedRequestCount);
+    });
+
+    it('fails on requests that have not been recorded', async () => {
+        const replay = new ReplayProvider(fixtureFile);
+
+        await assert.rejects(
+            replay.send('eth_getBalance', ['0x', 'latest']),
+            /No recorded response/,
+        );
+    });
+
+    it('fails when the fixture file does not exist', () => {
+        assert.throws(
+            () => new ReplayProvider(`${fixtureFile}.missing`),
+            /RPC fixture file not found/,
+        );
+    });
+});
@@ -0,0 +1,252 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import {
+    CHUNKING_PROFILES,
+    computeCid,
+    matchingProfile,
+    parseCid,
+} from '../cid';
+import {
+    DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+    verifyStatements,
+} from '../statements';
+import { Batch } from '../types';
+import { setLogLevel } from '../logger';
+
+/*
+ * Redemption statement verification tests, against a local stand-in for an IPFS gateway
+ */
+
+const HELLO = Buffer.from('hello world\n');
+// CIDs `ipfs add` gives to HELLO, with the default options and with --cid-version 1.
+const HELLO_CID_V0 = 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o';
+const HELLO_CID_V1 =
+    'bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4';
+const TAMPERED_CID = `bafkrei${'a'.repeat(52)}`;
+
+// 2 MiB file, 8 chunks for Kubo and 2 for ipfs-car. Its bytes differ from chunk to chunk, so that swapped leaves change
+// the CIDs.
+const MULTI_CHUNK = Uint8Array.from(
+    { length: 2 * 1024 * 1024 },
+    (_, i) => i % 251,
+);
+// CID `ipfs-car pack --no-wrap` gives to MULTI_CHUNK.
+const MULTI_CHUNK_CAR_CID_V1 =
+    'bafybeihakzyqh6ih4iwgqily25hqovthaujdkbcfybornyhhbpoa63jwri';
+// CIDs of MULTI_CHUNK with the defaults of `ipfs add` and with --cid-version 1, built with ipfs-unixfs-importer and
+// @ipld/dag-pb. The CIDv0 leaves are UnixFS nodes, the first one typed as a file and the others as raw data.
+const MULTI_CHUNK_KUBO_CID_V0 =
+    'QmWpwZB9XtjUY5WsBVSsyjj7c2vNoK8VUGKqkVbwp4UiCm';
+const MULTI_CHUNK_KUBO_CID_V1 =
+    'bafybeic4cehyphopgwvarn65c2ot42nebg2ce6kgx44jkewbwgurzwxhci';
+
+const batch = (
+    batchId: string,
+    redemptionStatement: string,
+    storagePointer = `https://${redemptionStatement}.ipfs.dweb.link`,
+): Batch => ({
+    batchId,
+    redemptionStatement,
+    storagePointer,
+    certificateIds: [],
+    blockNumber: 0,
+    logIndex: 0,
+    timestamp: '',
+    transactionHash: '0x',
+});
+
+describe('computeCid', () => {
+    it('rebuilds the CIDs of a single chunk file', () => {
+        assert.equal(
+            computeCid(HELLO, parseCid(HELLO_CID_V0), CHUNKING_PROFILES[0]),
+            HELLO_CID_V0,
+        );
+        assert.equal(
+            computeCid(HELLO, parseCid(HELLO_CID_V1), CHUNKING_PROFILES[0]),
+            HELLO_CID_V1,
+        );
+    });
+
+    it('rebuilds the CIDs of an empty file', () => {
+        const emptyCidV0 = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+        const emptyCidV1 =
+            'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+
+        assert.equal(
+            computeCid(
+                Buffer.alloc(0),
+                parseCid(emptyCidV0),
+                CHUNKING_PROFILES[0],
+            ),
+            emptyCidV0,
+        );
+        assert.equal(
+            computeCid(
+                Buffer.alloc(0),
+                parseCid(emptyCidV1),
+                CHUNKING_PROFILES[0],
+            ),
+            emptyCidV1,
+        );
+    });
+
+    it('rebuilds the CIDs of multi-chunk files', () => {
+        const [kubo, ipfsCar] = CHUNKING_PROFILES;
+
+        assert.equal(
+            computeCid(MULTI_CHUNK, parseCid(MULTI_CHUNK_KUBO_CID_V0), kubo),
+            MULTI_CHUNK_KUBO_CID_V0,
+        );
+        assert.equal(
+            computeCid(MULTI_CHUNK, parseCid(MULTI_CHUNK_KUBO_CID_V1), kubo),
+            MULTI_CHUNK_KUBO_CID_V1,
+        );
+        assert.equal(
+            computeCid(MULTI_CHUNK, parseCid(MULTI_CHUNK_CAR_CID_V1), ipfsCar),
+            MULTI_CHUNK_CAR_CID_V1,
+        );
+    });
+
+    it('matches multi-chunk files with the profile they were chunked with', () => {
+        assert.equal(
+            matchingProfile(MULTI_CHUNK, MULTI_CHUNK_KUBO_CID_V0),
+            'kubo',
+        );
+        assert.equal(
+            matchingProfile(MULTI_CHUNK, MULTI_CHUNK_KUBO_CID_V1),
+            'kubo',
+        );
+        assert.equal(
+            matchingProfile(MULTI_CHUNK, MULTI_CHUNK_CAR_CID_V1),
+            'ipfs-car',
+        );
+        assert.equal(
+            matchingProfile(MULTI_CHUNK.subarray(1), MULTI_CHUNK_CAR_CID_V1),
+            undefined,
+        );
+    });
+
+    it('rejects unsupported CIDs', () => {
+        assert.throws(() => parseCid('not-a-cid'), /unsupported CID encoding/);
+    });
+});
+
+describe('verifyStatements', () => {
+    let server: http.Server;
+    let gatewayUrl: string;
+    let cacheDir: string;
+    const requests: string[] = [];
+
+    before(async () => {
+        setLogLevel('error');
+        server = http.createServer((req, res) => {
+            requests.push(req.url!);
+            switch (req.url) {
+                case `/ipfs/${HELLO_CID_V1}`:
+                    res.writeHead(301, {
+                        location: `/redirected/${HELLO_CID_V1}`,
+                    });
+                    res.end();
+                    return;
+                case `/redirected/${HELLO_CID_V1}`:
+                case `/ipfs/${HELLO_CID_V0}`:
+                    res.end(HELLO);
+                    return;
+                // A gateway serving other bytes than the ones the CID was computed from.
+                case `/ipfs/${TAMPERED_CID}`:
+                    res.end('tampered statement');
+                    return;
+                default:
+                    res.writeHead(404);
+                    res.end();
+            }
+        });
+        await new Promise<void>(resolve =>
+            server.listen(0, '127.0.0.1', resolve),
+        );
+        gatewayUrl = `http://127.0.0.1:${
+            (server.address() as AddressInfo).port
+        }`;
+        cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statements-'));
+    });
+
+    after(() => {
+        server.close();
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('flags mismatched statements and storage pointers', async () => {
+        const options = {
+            ...DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+            cacheDir,
+            gatewayUrl,
+        };
+        const verifications = await verifyStatements(
+            [
+                batch('1', HELLO_CID_V1),
+                batch('2', HELLO_CID_V0, 'https://dweb.link/ipfs/QmOther'),
+                batch('3', TAMPERED_CID),
+                batch('4', 'bafkreinotfound'),
+                batch('5', 'QmNotACid', 'https://example.com/statement.pdf'),
+            ],
+            options,
+        );
+
+        assert.deepEqual(
+            verifications.map(v => [
+                v.batchId,
+                v.status,
+                v.storagePointerMatches,
+                v.chunkingProfile,
+                v.byteLength,
+            ]),
+            [
+                ['1', 'verified', true, 'kubo', HELLO.length],
+                ['2', 'verified', false, 'kubo', HELLO.length],
+                ['3', 'mismatch', true, '', 18],
+                ['4', 'invalid-cid', true, '', null],
+                ['5', 'invalid-cid', false, '', null],
+            ],
+        );
+        assert.equal(
+            verifications[2].computedCid,
+            computeCid(
+                Buffer.from('tampered statement'),
+                parseCid(TAMPERED_CID),
+                CHUNKING_PROFILES[0],
+            ),
+        );
+
+        // Verified statements are cached and not downloaded again, mismatched ones are.
+        assert.deepEqual(fs.readdirSync(cacheDir).sort(), [
+            HELLO_CID_V0,
+            HELLO_CID_V1,
+        ]);
+        requests.length = 0;
+        await verifyStatements(
+            [batch('1', HELLO_CID_V1), batch('3', TAMPERED_CID)],
+            options,
+        );
+        assert.deepEqual(requests, [`/ipfs/${TAMPERED_CID}`]);
+    });
+
+    it('reports unreachable statements as unavailable', async () => {
+        const [verification] = await verifyStatements(
+            [batch('1', HELLO_CID_V1)],
+            {
+                ...DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+                cacheDir: path.join(cacheDir, 'empty'),
+                gatewayUrl: `${gatewayUrl}/nowhere`,
+            },
+        );
+
+        assert.equal(verification.status, 'unavailable');
+        assert.match(verification.error, /HTTP 404/);
+    });
+});
@@ -0,0 +1,302 @@
+import { BigNumber, constants, utils } from 'ethers';
+import {
+    AgreementMetadataCoder,
+    ClaimDataCoder,
+} from '@zero-labs/tokenization-contracts';
+
+import { BlockTimestamps, EwcEvent, EwcEvents } from '../types';
+
+/*
+ * Synthetic Energy Web Chain events
+ */
+
+export const OPERATOR = '0x0000000000000000000000000000000000000001';
+export const ISSUER = '0x0000000000000000000000000000000000000002';
+export const SELLER = '0x00000000000000000000000000000000000000a1';
+export const BUYER = '0x00000000000000000000000000000000000000b1';
+export const SP_ADDRESS = '0x00000000000000000000000000000000000000c1';
+
+export const VALID_AGREEMENT = '0x000000000000000000000000000000000000a001';
+export const SECOND_AGREEMENT = '0x000000000000000000000000000000000000a002';
+export const INVALID_AGREEMENT = '0x000000000000000000000000000000000000a003';
+// Valid in the agreement data, as cached before its AgreementInvalidated event.
+export const STALE_AGREEMENT = '0x000000000000000000000000000000000000a005';
+
+// Certificates 1 and 2 fill the valid agreement, 3 fills the second one, 4 fills the invalid one and 5 the stale one,
+// so that only 5 is in no valid agreement.
+// Certificate 2 is linked to both batches.
+export const BATCH_1 = utils.id('batch-1');
+export const BATCH_2 = utils.id('batch-2');
+
+// Block N is mined on day N of 2022, at midnight UTC.
+export const blockTimestamp = (blockNumber: number) =>
+    Date.UTC(2022, 0, blockNumber) / 1000;
+
+// Transaction hashes are derived from the block and position of the event, unless given.
+export const event = <Args>(
+    blockNumber: number,
+    logIndex: number,
+    args: Args,
+    transactionHash = utils.id(`tx-${blockNumber}-${logIndex}`),
+): EwcEvent<Args> => ({
+    args,
+    blockNumber,
+    blockHash: utils.id(`block-${blockNumber}`),
+    logIndex,
+    transactionHash,
+});
+
+let logIndex = 0;
+let blockTimestamps: BlockTimestamps = {};
+// Synthetic events are given increasing log indexes.
+const nextEvent = <Args>(blockNumber: number, args: Args): EwcEvent<Args> => {
+    logIndex++;
+    blockTimestamps[utils.id(`block-${blockNumber}`)] =
+        blockTimestamp(blockNumber);
+    return event(blockNumber, logIndex, args);
+};
+
+const encodeMetadata = (agreementId: string) =>
+    AgreementMetadataCoder.encode({
+        productType: 'IREC',
+        energySources: ['SOLAR', 'WIND'],
+        country: 'FR',
+        region: 'IDF',
+        agreementId,
+        orderId: `order-${agreementId}`,
+    });
+
+// Storage providers are identified by their miner ID, after a `;` in the beneficiary or the consumption entity.
+const encodeClaimData = (
+    proofID: string,
+    beneficiary = '47b98763-2f5b-4b47-a1b8-2b5f1f4ab1e3;f0678914',
+    consumptionEntityID = beneficiary,
+) =>
+    ClaimDataCoder.encode({
+        beneficiary,
+        region: 'IDF',
+        countryCode: 'FR',
+        periodStartDate: '2022-01-01T00:00:00.000Z',
+        periodEndDate: '2022-12-31T23:59:59.999Z',
+        purpose: 'Decarbonization',
+        consumptionEntityID,
+        proofID,
+        data: '',
+    });
+
+const mint = (blockNumber: number, id: number, value: number) =>
+    nextEvent(blockNumber, {
+        operator: OPERATOR,
+        from: constants.AddressZero,
+        to: SELLER,
+        id: BigNumber.from(id),
+        value: BigNumber.from(value),
+    });
+
+const claim = (blockNumber: number, id: number, value: number) =>
+    nextEvent(blockNumber, {
+        _claimIssuer: ISSUER,
+        _claimSubject: SP_ADDRESS,
+        _topic: BigNumber.from(1),
+        _id: BigNumber.from(id),
+        _value: BigNumber.from(value),
+        _claimData: encodeClaimData(`proof-${id}`),
+    });
+
+export const syntheticEvents = (): EwcEvents => {
+    logIndex = 0;
+    blockTimestamps = {};
+
+    return {
+        agreementsDeployed: [
+            nextEvent(10, {
+                agreements: [
+                    VALID_AGREEMENT,
+                    SECOND_AGREEMENT,
+                    INVALID_AGREEMENT,
+                    STALE_AGREEMENT,
+                ],
+            }),
+        ],
+        agreementSigned: [
+            // Signed out of order, to check that agreements are sorted by block.
+            nextEvent(12, {
+                agreementAddress: SECOND_AGREEMENT,
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(300),
+            }),
+            nextEvent(11, {
+                agreementAddress: VALID_AGREEMENT,
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(1000),
+            }),
+            nextEvent(13, {
+                agreementAddress: INVALID_AGREEMENT,
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(400),
+            }),
+            nextEvent(15, {
+                agreementAddress: STALE_AGREEMENT,
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(500),
+            }),
+        ],
+        agreementFilled: [
+            nextEvent(30, {
+                agreementAddress: VALID_AGREEMENT,
+                certificateId: BigNumber.from(1),
+                amount: BigNumber.from(600),
+            }),
+            nextEvent(31, {
+                agreementAddress: VALID_AGREEMENT,
+                certificateId: BigNumber.from(2),
+                amount: BigNumber.from(400),
+            }),
+            nextEvent(32, {
+                agreementAddress: SECOND_AGREEMENT,
+                certificateId: BigNumber.from(3),
+                amount: BigNumber.from(300),
+            }),
+            nextEvent(33, {
+                agreementAddress: INVALID_AGREEMENT,
+                certificateId: BigNumber.from(4),
+                amount: BigNumber.from(400),
+            }),
+            nextEvent(35, {
+                agreementAddress: STALE_AGREEMENT,
+                certificateId: BigNumber.from(5),
+                amount: BigNumber.from(500),
+            }),
+        ],
+        agreementClaimed: [],
+        transferSingle: [mint(20, 1, 600), mint(21, 5, 500)],
+        transferBatch: [
+            nextEvent(22, {
+                operator: OPERATOR,
+                from: constants.AddressZero,
+                to: SELLER,
+                ids: [BigNumber.from(2), BigNumber.from(3)],
+                values: [BigNumber.from(400), BigNumber.from(300)],
+            }),
+            // Certificates are sent to the buyer once the agreements are filled.
+            nextEvent(34, {
+                operator: OPERATOR,
+                from: SELLER,
+                to: BUYER,
+                ids: [BigNumber.from(1), BigNumber.from(2)],
+                values: [BigNumber.from(600), BigNumber.from(400)],
+            }),
+        ],
+        transferBatchMultiple: [
+            nextEvent(23, {
+                operator: OPERATOR,
+                from: [constants.AddressZero],
+                to: [SELLER],
+                ids: [BigNumber.from(4)],
+                values: [BigNumber.from(400)],
+            }),
+        ],
+        redemptionStatementSet: [
+            nextEvent(41, {
+                batchId: BATCH_2,
+                redemptionStatement: 'bafybeiredemptionstatement2',
+                storagePointer:
+                    'https://ipfs.io/ipfs/bafybeiredemptionstatement2',
+            }),
+            nextEvent(40, {
+                batchId: BATCH_1,
+                redemptionStatement: 'bafybeiredemptionstatement1',
+                storagePointer:
+                    'https://ipfs.io/ipfs/bafybeiredemptionstatement1',
+            }),
+        ],
+        certificateBatchMinted: [
+            nextEvent(24, {
+                batchId: BATCH_1,
+                certificateIds: [
+                    BigNumber.from(1),
+                    BigNumber.from(2),
+                    BigNumber.from(5),
+                ],
+            }),
+            nextEvent(25, {
+                batchId: BATCH_2,
+                certificateIds: [
+                    BigNumber.from(2),
+                    BigNumber.from(3),
+                    BigNumber.from(4),
+                ],
+            }),
+        ],
+        claimSingle: [claim(50, 1, 600), claim(51, 5, 500)],
+        claimBatch: [
+            nextEvent(52, {
+                _claimIssuer: ISSUER,
+                _claimSubject: BUYER,
+                _ids: [BigNumber.from(2), BigNumber.from(3)],
+                _values: [BigNumber.from(150), BigNumber.from(300)],
+                _claimData: [
+                    encodeClaimData('proof-2', 'Buyer;f01234'),
+                    encodeClaimData('proof-3', 'Buyer;f01234'),
+                ],
+            }),
+        ],
+        claimBatchMultiple: [
+            nextEvent(53, {
+                _claimIssuer: [ISSUER],
+                _claimSubject: [SP_ADDRESS],
+                _ids: [BigNumber.from(2)],
+                _values: [BigNumber.from(250)],
+                _claimData: [
+                    encodeClaimData(
+                        'proof-2-bis',
+                        'Storage provider',
+                        'Storage provider;f0678914',
+                    ),
+                ],
+            }),
+        ],
+        // The invalid agreement is invalidated right after being signed, the stale one once filled.
+        agreementInvalidated: [
+            nextEvent(14, { agreementAddress: INVALID_AGREEMENT }),
+            nextEvent(36, { agreementAddress: STALE_AGREEMENT }),
+        ],
+        agreementsData: {
+            [VALID_AGREEMENT]: {
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(1000),
+                metadata: encodeMetadata('agreement-1'),
+                valid: true,
+            },
+            [SECOND_AGREEMENT]: {
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(300),
+                metadata: encodeMetadata('agreement-2'),
+                valid: true,
+            },
+            [INVALID_AGREEMENT]: {
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(400),
+                metadata: encodeMetadata('agreement-3'),
+                valid: false,
+            },
+            [STALE_AGREEMENT]: {
+                buyer: BUYER,
+                seller: SELLER,
+                amount: BigNumber.from(500),
+                metadata: encodeMetadata('agreement-5'),
+                valid: true,
+            },
+        },
+        // Filled by the events above as they are built.
+        blockTimestamps,
+        lastSyncedBlock: 53,
+    };
+};
@@ -0,0 +1,169 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BigNumber } from 'ethers';
+
+import { TimeSeriesOptions, buildTimeSeries } from '../time-series';
+import { reconcile } from '../reconcile';
+import { computeTotals } from '../totals';
+import { setLogLevel } from '../logger';
+import { EwcEvents, TimeSeriesPeriod } from '../types';
+import { syntheticEvents } from './synthetic-events';
+
+/*
+ * Time series tests
+ */
+
+// Period bounds and amounts minted, signed, filled and claimed, then their cumulative sums.
+const rows = (timeSeries: TimeSeriesPeriod[]) =>
+    timeSeries.map(p => [
+        p.periodStart,
+        p.periodEnd,
+        [p.mintedWh, p.signedWh, p.filledWh, p.claimedWh].join(' '),
+        [
+            p.cumulativeMintedWh,
+            p.cumulativeSignedWh,
+            p.cumulativeFilledWh,
+            p.cumulativeClaimedWh,
+        ].join(' '),
+    ]);
+
+const timeSeriesOf = (events: EwcEvents, options: TimeSeriesOptions) =>
+    buildTimeSeries({ ...reconcile(events), events }, options);
+
+describe('buildTimeSeries', () => {
+    before(() => {
+        setLogLevel('error');
+    });
+
+    it('buckets amounts by month, counting certificates in several batches once', () => {
+        assert.deepEqual(
+            rows(
+                timeSeriesOf(syntheticEvents(), {
+                    granularity: 'month',
+                    claimTime: 'block',
+                }),
+            ),
+            [
+                [
+                    '2022-01-01',
+                    '2022-01-31',
+                    '1300 1300 1000 0',
+                    '1300 1300 1000 0',
+                ],
+                [
+                    '2022-02-01',
+                    '2022-02-28',
+                    '0 0 300 1300',
+                    '1300 1300 1300 1300',
+                ],
+            ],
+        );
+    });
+
+    it('ends on the totals printed by the summary', () => {
+        const reconciliation = reconcile(syntheticEvents());
+        const timeSeries = buildTimeSeries(
+            { ...reconciliation, events: syntheticEvents() },
+            { granularity: 'day', claimTime: 'block' },
+        );
+        const last = timeSeries[timeSeries.length - 1];
+        const totals = computeTotals(reconciliation);
+
+        assert.deepEqual(
+            [
+                last.cumulativeMintedWh,
+                last.cumulativeSignedWh,
+                last.cumulativeFilledWh,
+                last.cumulativeClaimedWh,
+            ],
+            [
+                totals.mintedWh.toString(),
+                totals.signedWh.toString(),
+                totals.filledWh.toString(),
+                totals.claimedWh.toString(),
+            ],
+        );
+        // Certificate 2 is in two batches, its mint and claims are counted once.
+        assert.equal(totals.mintedWh.toString(), '1300');
+        assert.equal(totals.claimedWh.toString(), '1300');
+    });
+
+    it('counts each mint of a certificate minted twice in the same event', () => {
+        const events = syntheticEvents();
+        // Certificate 2 is minted again in the TransferBatch event that mints it.
+        const [mintOf2And3] = events.transferBatch;
+        mintOf2And3.args = {
+            ...mintOf2And3.args,
+            ids: [...mintOf2And3.args.ids, BigNumber.from(2)],
+            values: [...mintOf2And3.args.values, BigNumber.from(100)],
+        };
+        const [last] = timeSeriesOf(events, {
+            granularity: 'month',
+            claimTime: 'block',
+        }).slice(-1);
+
+        assert.equal(last.cumulativeMintedWh, '1400');
+        assert.equal(
+            computeTotals(reconcile(events)).mintedWh.toString(),
+            '1400',
+        );
+    });
+
+    it('includes empty periods between the first and the last one', () => {
+        const timeSeries = timeSeriesOf(syntheticEvents(), {
+            granularity: 'week',
+            claimTime: 'block',
+        });
+
+        // 2022-01-10 (block 10) is a Monday, claims are made on block 53.
+        assert.equal(timeSeries[0].periodStart, '2022-01-10');
+        assert.equal(timeSeries[0].periodEnd, '2022-01-16');
+        assert.equal(
+            timeSeries[timeSeries.length - 1].periodStart,
+            '2022-02-21',
+        );
+        assert.equal(timeSeries.length, 7);
+        assert.deepEqual(
+            rows(timeSeries).find(r => r[0] === '2022-01-31'),
+            ['2022-01-31', '2022-02-06', '0 0 700 0', '1300 1300 1300 0'],
+        );
+        assert.deepEqual(
+            rows(timeSeries).find(r => r[0] === '2022-02-07'),
+            ['2022-02-07', '2022-02-13', '0 0 0 0', '1300 1300 1300 0'],
+        );
+    });
+
+    it('buckets claims by the reporting period of their claim data', () => {
+        const byPeriodEnd = timeSeriesOf(syntheticEvents(), {
+            granularity: 'quarter',
+            claimTime: 'period-end',
+        });
+
+        assert.deepEqual(
+            byPeriodEnd.map(p => [p.periodStart, p.periodEnd, p.claimedWh]),
+            [
+                ['2022-01-01', '2022-03-31', '0'],
+                ['2022-04-01', '2022-06-30', '0'],
+                ['2022-07-01', '2022-09-30', '0'],
+                ['2022-10-01', '2022-12-31', '1300'],
+            ],
+        );
+
+        const byPeriodStart = timeSeriesOf(syntheticEvents(), {
+            granularity: 'day',
+            claimTime: 'period-start',
+        });
+        assert.equal(byPeriodStart[0].periodStart, '2022-01-01');
+        assert.equal(byPeriodStart[0].claimedWh, '1300');
+    });
+
+    it('leaves out amounts whose time is unknown', () => {
+        const events = syntheticEvents();
+        events.blockTimestamps = {};
+
+        assert.deepEqual(
+            timeSeriesOf(events, { granularity: 'day', claimTime: 'block' }),
+            [],
+        );
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+    autoEnergyUnit,
+    formatEnergy,
+    toEnergyUnit,
+    withEnergyColumns,
+} from '../units';
+
+/*
+ * Energy units tests
+ */
+
+describe('toEnergyUnit', () => {
+    it('converts Wh exactly, without trailing zeros', () => {
+        assert.equal(toEnergyUnit('1234500', 'MWh'), '1.2345');
+        assert.equal(toEnergyUnit('1000', 'kWh'), '1');
+        assert.equal(toEnergyUnit('5', 'GWh'), '0.000000005');
+        assert.equal(toEnergyUnit('0', 'MWh'), '0');
+        assert.equal(toEnergyUnit('-1500', 'kWh'), '-1.5');
+        assert.equal(toEnergyUnit('42', 'Wh'), '42');
+    });
+
+    it('keeps every digit of values beyond float precision', () => {
+        assert.equal(
+            toEnergyUnit('123456789012345678901', 'GWh'),
+            '123456789012.345678901',
+        );
+    });
+});
+
+describe('formatEnergy', () => {
+    it('picks the largest unit the value is at least 1 of', () => {
+        assert.equal(autoEnergyUnit('999'), 'Wh');
+        assert.equal(autoEnergyUnit('1000'), 'kWh');
+        assert.equal(autoEnergyUnit('2500000000000'), 'GWh');
+        assert.equal(formatEnergy('1300'), '1.3 kWh');
+        assert.equal(formatEnergy('1300', 'MWh'), '0.0013 MWh');
+    });
+});
+
+describe('withEnergyColumns', () => {
+    it('adds the converted columns right after the Wh ones', () => {
+        assert.deepEqual(
+            withEnergyColumns(
+                [{ tokenId: '1', value: '2500', claimedWh: '1000' }],
+                ['value', 'claimedWh'],
+                'kWh',
+            ),
+            [
+                {
+                    tokenId: '1',
+                    value: '2500',
+                    valuekWh: '2.5',
+                    claimedWh: '1000',
+                    claimedkWh: '1',
+                },
+            ],
+        );
+    });
+});
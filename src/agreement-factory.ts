@@ -44,6 +44,19 @@ export default {
             name: 'AgreementFilled',
             type: 'event',
         },
+        {
+            anonymous: false,
+            inputs: [
+                {
+                    indexed: true,
+                    internalType: 'address',
+                    name: 'agreementAddress',
+                    type: 'address',
+                },
+            ],
+            name: 'AgreementInvalidated',
+            type: 'event',
+        },
         {
             anonymous: false,
             inputs: [
@@ -0,0 +1,88 @@
+import {
+    AgreementMetadataCoder,
+    IAgreementMetadata,
+} from '@zero-labs/tokenization-contracts';
+
+import { DecodeStatus } from './claim-data';
+
+/*
+ * Decoding of agreement metadata
+ */
+
+export type DecodedAgreementMetadata = {
+    // Product type of the certificates (IREC, REC, GO...).
+    productType: string;
+    energySources: string[];
+    // Country and region the energy is produced in.
+    country: string;
+    region: string;
+    agreementId: string;
+    orderId: string;
+    // Free data appended to the metadata.
+    metadataData: string;
+    // ok: all fields decoded. recovered: some fields are missing, they are left empty. failed: the metadata could not
+    // be decoded at all.
+    metadataDecodeStatus: Exclude<DecodeStatus, 'legacy-array'>;
+    metadataDecodeWarnings: string[];
+};
+
+const EMPTY_AGREEMENT_METADATA: DecodedAgreementMetadata = {
+    productType: '',
+    energySources: [],
+    country: '',
+    region: '',
+    agreementId: '',
+    orderId: '',
+    metadataData: '',
+    metadataDecodeStatus: 'ok',
+    metadataDecodeWarnings: [],
+};
+
+// Fields that are missing when the metadata has less `--` separated parts than expected.
+const REQUIRED_FIELDS: (keyof IAgreementMetadata)[] = [
+    'productType',
+    'country',
+    'region',
+    'agreementId',
+    'orderId',
+];
+
+export const decodeAgreementMetadata = (
+    metadata: string,
+): DecodedAgreementMetadata => {
+    let decoded: IAgreementMetadata;
+    try {
+        decoded = AgreementMetadataCoder.decode(metadata);
+    } catch {
+        return {
+            ...EMPTY_AGREEMENT_METADATA,
+            metadataDecodeStatus: 'failed',
+            metadataDecodeWarnings: ['metadata could not be decoded'],
+        };
+    }
+
+    const metadataDecodeWarnings: string[] = [];
+    for (const field of REQUIRED_FIELDS) {
+        if (decoded[field] === undefined) {
+            metadataDecodeWarnings.push(`missing ${field}`);
+        }
+    }
+    // The coder returns an empty product type when none of the known ones is found.
+    if (decoded.productType === '') {
+        metadataDecodeWarnings.push('unknown productType');
+    }
+
+    return {
+        productType: decoded.productType ?? '',
+        energySources: decoded.energySources.filter(s => s !== ''),
+        country: decoded.country ?? '',
+        region: decoded.region ?? '',
+        agreementId: decoded.agreementId ?? '',
+        orderId: decoded.orderId ?? '',
+        metadataData: decoded.data ?? '',
+        metadataDecodeStatus: metadataDecodeWarnings.length
+            ? 'recovered'
+            : 'ok',
+        metadataDecodeWarnings,
+    };
+};
@@ -0,0 +1,143 @@
+import { BigNumber } from 'ethers';
+
+import { Anomaly, EwcEvents, Reconciliation } from './types';
+
+/*
+ * Invariant checks of the reconciled data
+ */
+
+// Check the invariants the totals of the summary rely on, and return one anomaly per record breaking one of them.
+// Anomalies are ordered by check, then by the order the records are found in.
+export const findAnomalies = (
+    events: EwcEvents,
+    { agreements, inventory }: Pick<Reconciliation, 'agreements' | 'inventory'>,
+): Anomaly[] => {
+    const anomalies: Anomaly[] = [];
+
+    // Claims are summed from all claim events, so that claims on certificates that were never minted are caught too.
+    const mintedValues: { [tokenId: string]: BigNumber } = {};
+    for (const { tokenId, mintedValue } of inventory.certificates) {
+        mintedValues[tokenId] = BigNumber.from(mintedValue);
+    }
+    const claimedValues: { [tokenId: string]: BigNumber } = {};
+    for (const { tokenId, value } of inventory.claims) {
+        claimedValues[tokenId] = (
+            claimedValues[tokenId] ?? BigNumber.from(0)
+        ).add(value);
+    }
+    for (const [tokenId, claimedValue] of Object.entries(claimedValues)) {
+        const mintedValue = mintedValues[tokenId] ?? BigNumber.from(0);
+        if (claimedValue.gt(mintedValue)) {
+            anomalies.push({
+                severity: 'error',
+                check: 'claimed-exceeds-minted',
+                subjectType: 'certificate',
+                subjectId: tokenId,
+                message: `${claimedValue.toString()} Wh claimed for ${mintedValue.toString()} Wh minted`,
+            });
+        }
+    }
+
+    for (const { agreementAddress, signedAmount, filledAmount } of agreements) {
+        if (BigNumber.from(filledAmount).gt(signedAmount)) {
+            anomalies.push({
+                severity: 'error',
+                check: 'filled-exceeds-signed',
+                subjectType: 'agreement',
+                subjectId: agreementAddress,
+                message: `${filledAmount} Wh filled for ${signedAmount} Wh signed`,
+            });
+        }
+    }
+
+    const mintedBatchIds = new Set(
+        events.certificateBatchMinted.map(e => e.args.batchId),
+    );
+    const certificatesInBatch = new Set(
+        events.certificateBatchMinted.flatMap(e =>
+            e.args.certificateIds.map(id => id.toString()),
+        ),
+    );
+    for (const { agreementAddress, certificateIds } of agreements) {
+        for (const tokenId of certificateIds) {
+            if (!certificatesInBatch.has(tokenId)) {
+                anomalies.push({
+                    severity: 'warning',
+                    check: 'filled-certificate-without-batch',
+                    subjectType: 'certificate',
+                    subjectId: tokenId,
+                    message: `filled into agreement ${agreementAddress} but linked to no batch`,
+                });
+            }
+        }
+    }
+
+    const redemptionStatementSetEvents = [
+        ...events.redemptionStatementSet,
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const redemptionStatementsByBatch: { [batchId: string]: string[] } = {};
+    for (const { args } of redemptionStatementSetEvents) {
+        if (!redemptionStatementsByBatch[args.batchId]) {
+            redemptionStatementsByBatch[args.batchId] = [];
+        }
+        redemptionStatementsByBatch[args.batchId].push(
+            args.redemptionStatement,
+        );
+    }
+    for (const [batchId, redemptionStatements] of Object.entries(
+        redemptionStatementsByBatch,
+    )) {
+        if (!mintedBatchIds.has(batchId)) {
+            anomalies.push({
+                severity: 'warning',
+                check: 'redemption-statement-without-batch-mint',
+                subjectType: 'batch',
+                subjectId: batchId,
+                message: `redemption statement ${redemptionStatements[0]} set but no certificate minted in the batch`,
+            });
+        }
+    }
+    for (const [batchId, redemptionStatements] of Object.entries(
+        redemptionStatementsByBatch,
+    )) {
+        if (redemptionStatements.length > 1) {
+            anomalies.push({
+                severity: 'warning',
+                check: 'duplicate-redemption-statement',
+                subjectType: 'batch',
+                subjectId: batchId,
+                message: `${
+                    redemptionStatements.length
+                } redemption statements set: ${redemptionStatements.join(' ')}`,
+            });
+        }
+    }
+
+    // Parties of any signed agreement, invalidated ones included.
+    const agreementParties = new Set(
+        events.agreementSigned.flatMap(e => [
+            e.args.buyer.toLowerCase(),
+            e.args.seller.toLowerCase(),
+        ]),
+    );
+    for (const {
+        tokenId,
+        claimSubject,
+        value,
+        transactionHash,
+        logIndex,
+        entryIndex,
+    } of inventory.claims) {
+        if (!agreementParties.has(claimSubject.toLowerCase())) {
+            anomalies.push({
+                severity: 'warning',
+                check: 'claim-subject-not-agreement-party',
+                subjectType: 'claim',
+                subjectId: `${transactionHash}:${logIndex}:${entryIndex}`,
+                message: `${value} Wh claimed on certificate ${tokenId} by ${claimSubject}, neither buyer nor seller of any agreement`,
+            });
+        }
+    }
+
+    return anomalies;
+};
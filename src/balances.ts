@@ -0,0 +1,80 @@
+import { BigNumber, ethers } from 'ethers';
+
+import { logger } from './logger';
+import { BalanceMismatch, BalanceRegistry, Reconciliation } from './types';
+
+/*
+ * Reconciliation of balances against the contract state
+ */
+
+// Maximum number of (address, certificate ID) pairs requested in a single balance view call.
+const BALANCES_BATCH_SIZE = 100;
+
+// Compare the holder and claimed balances of a reconciliation to the ones returned by the RegistryExtended contract at
+// the block the events were synced to.
+export const checkBalances = async (
+    registryExtendedContract: ethers.Contract,
+    { holderBalances, claimedBalances }: Reconciliation,
+    blockTag: number,
+): Promise<BalanceMismatch[]> => [
+    ...(await reconcileBalances(
+        holderBalances,
+        'holder',
+        (accounts: string[], ids: string[]) =>
+            registryExtendedContract.balanceOfBatch(accounts, ids, {
+                blockTag,
+            }),
+    )),
+    ...(await reconcileBalances(
+        claimedBalances,
+        'claimed',
+        (accounts: string[], ids: string[]) =>
+            registryExtendedContract.claimedBalanceOfBatch(accounts, ids, {
+                blockTag,
+            }),
+    )),
+];
+
+// Compare balances reconstructed from events to the ones returned by a batch view call of the registry.
+const reconcileBalances = async (
+    expectedBalances: BalanceRegistry,
+    balanceType: BalanceMismatch['balanceType'],
+    fetchBalances: (accounts: string[], ids: string[]) => Promise<BigNumber[]>,
+): Promise<BalanceMismatch[]> => {
+    const pairs: { address: string; tokenId: string; expected: BigNumber }[] =
+        [];
+    for (const tokenId of Object.keys(expectedBalances)) {
+        for (const [address, expected] of Object.entries(
+            expectedBalances[tokenId],
+        )) {
+            pairs.push({ address, tokenId, expected });
+        }
+    }
+
+    const balanceMismatches: BalanceMismatch[] = [];
+    for (let i = 0; i < pairs.length; i += BALANCES_BATCH_SIZE) {
+        const chunk = pairs.slice(i, i + BALANCES_BATCH_SIZE);
+        const onChainBalances = await fetchBalances(
+            chunk.map(p => p.address),
+            chunk.map(p => p.tokenId),
+        );
+
+        chunk.forEach(({ address, tokenId, expected }, j) => {
+            if (!expected.eq(onChainBalances[j])) {
+                balanceMismatches.push({
+                    tokenId,
+                    address,
+                    balanceType,
+                    expected: expected.toString(),
+                    onChain: onChainBalances[j].toString(),
+                });
+            }
+        });
+    }
+
+    logger.info(
+        `\t\tChecked ${pairs.length} ${balanceType} balances against contract state\n`,
+    );
+
+    return balanceMismatches;
+};
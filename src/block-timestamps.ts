@@ -0,0 +1,90 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+
+import { logger } from './logger';
+import { writeFileAtomic } from './files';
+import { BlockTimestamps } from './types';
+
+/*
+ * Cache of block timestamps
+ */
+
+// Number of blocks requested at the same time.
+const BLOCK_TIMESTAMPS_CONCURRENCY = 10;
+
+// The cache is saved every that many fetched blocks, so that an interrupted sync keeps the timestamps already fetched.
+const BLOCK_TIMESTAMPS_SAVE_INTERVAL = 500;
+
+// Format the time of a block as ISO-8601, or return an empty string when its timestamp has not been synced.
+export const blockTime = (
+    blockTimestamps: BlockTimestamps,
+    blockHash: string,
+) =>
+    blockTimestamps[blockHash] === undefined
+        ? ''
+        : new Date(blockTimestamps[blockHash] * 1000).toISOString();
+
+export const readBlockTimestamps = (cacheFile: string): BlockTimestamps => {
+    if (!fs.existsSync(cacheFile)) {
+        return {};
+    }
+
+    return JSON.parse(fs.readFileSync(cacheFile).toString());
+};
+
+const writeBlockTimestamps = (
+    cacheFile: string,
+    blockTimestamps: BlockTimestamps,
+) => {
+    writeFileAtomic(cacheFile, JSON.stringify(blockTimestamps));
+};
+
+// Fetch the timestamps of the blocks that are not cached yet. Blocks are keyed by hash, so that the timestamp of a block
+// that has been reorganised away is never reused.
+export const syncBlockTimestamps = async (
+    cacheFile: string,
+    provider: ethers.providers.Provider,
+    blockHashes: string[],
+): Promise<BlockTimestamps> => {
+    const blockTimestamps = readBlockTimestamps(cacheFile);
+    const missingBlockHashes = [...new Set(blockHashes)].filter(
+        blockHash => blockTimestamps[blockHash] === undefined,
+    );
+
+    logger.info(
+        `\tFetching ${missingBlockHashes.length} block timestamps not cached yet\n`,
+    );
+
+    let fetchedSinceSave = 0;
+    for (
+        let i = 0;
+        i < missingBlockHashes.length;
+        i += BLOCK_TIMESTAMPS_CONCURRENCY
+    ) {
+        const chunk = missingBlockHashes.slice(
+            i,
+            i + BLOCK_TIMESTAMPS_CONCURRENCY,
+        );
+        const blocks = await Promise.all(
+            chunk.map(blockHash => provider.getBlock(blockHash)),
+        );
+        blocks.forEach((block, j) => {
+            // Blocks reorganised away since their events were stored are not found.
+            if (!block) {
+                logger.warn(`\t\tBlock ${chunk[j]} not found\n`);
+                return;
+            }
+            blockTimestamps[block.hash] = block.timestamp;
+        });
+
+        fetchedSinceSave += chunk.length;
+        if (fetchedSinceSave >= BLOCK_TIMESTAMPS_SAVE_INTERVAL) {
+            writeBlockTimestamps(cacheFile, blockTimestamps);
+            fetchedSinceSave = 0;
+        }
+    }
+
+    writeBlockTimestamps(cacheFile, blockTimestamps);
+
+    return blockTimestamps;
+};
@@ -0,0 +1,363 @@
+import crypto from 'crypto';
+
+/*
+ * IPFS content identifiers
+ */
+
+export const RAW_CODEC = 0x55;
+export const DAG_PB_CODEC = 0x70;
+const SHA2_256_CODE = 0x12;
+const SHA2_256_LENGTH = 32;
+
+export type ParsedCid = {
+    version: 0 | 1;
+    // Multicodec of the root block, either raw or dag-pb.
+    codec: number;
+    // SHA2-256 digest of the root block.
+    digest: Uint8Array;
+};
+
+// Parameters used to split a file into blocks. A file only gets the CID it was uploaded with if it is rebuilt with the
+// same parameters, so the ones of the most common tools are tried.
+export type ChunkingProfile = {
+    name: string;
+    chunkSize: number;
+    // Maximum number of links of a node of the balanced tree.
+    maxLinks: number;
+};
+
+export const CHUNKING_PROFILES: ChunkingProfile[] = [
+    { name: 'kubo', chunkSize: 262_144, maxLinks: 174 },
+    { name: 'ipfs-car', chunkSize: 1_048_576, maxLinks: 1024 },
+];
+
+/*
+ * Base encodings
+ */
+
+const BASE58_ALPHABET =
+    '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// Convert big-endian digits from a base to another, leading zeros excluded.
+const convertBase = (digits: number[], from: number, to: number): number[] => {
+    const converted: number[] = [];
+    for (const digit of digits) {
+        let carry = digit;
+        for (let i = 0; i < converted.length; i++) {
+            carry += converted[i] * from;
+            converted[i] = carry % to;
+            carry = Math.floor(carry / to);
+        }
+        while (carry > 0) {
+            converted.push(carry % to);
+            carry = Math.floor(carry / to);
+        }
+    }
+    return converted.reverse();
+};
+
+// Leading zero bytes are encoded as leading ones.
+const encodeBase58 = (bytes: Uint8Array): string => {
+    const leadingZeros = bytes.findIndex(b => b !== 0);
+    return (
+        '1'.repeat(leadingZeros < 0 ? bytes.length : leadingZeros) +
+        convertBase(Array.from(bytes), 256, 58)
+            .map(digit => BASE58_ALPHABET[digit])
+            .join('')
+    );
+};
+
+const decodeBase58 = (encoded: string): Uint8Array => {
+    const digits = Array.from(encoded).map(char => {
+        const digit = BASE58_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Error(`invalid base58 character ${char}`);
+        }
+        return digit;
+    });
+    const leadingZeros = encoded.match(/^1*/)![0].length;
+    return Uint8Array.from([
+        ...new Array(leadingZeros).fill(0),
+        ...convertBase(digits, 58, 256),
+    ]);
+};
+
+// RFC 4648 base32, lowercase and without padding, as used by CIDv1.
+const encodeBase32 = (bytes: Uint8Array): string => {
+    let encoded = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            encoded += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        encoded += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+    return encoded;
+};
+
+const decodeBase32 = (encoded: string): Uint8Array => {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of encoded) {
+        const digit = BASE32_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Error(`invalid base32 character ${char}`);
+        }
+        buffer = (buffer << 5) | digit;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Uint8Array.from(bytes);
+};
+
+/*
+ * Protobuf encoding, limited to what dag-pb and UnixFS need
+ */
+
+const encodeVarint = (value: number): Buffer => {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push(value % 0x80 | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+};
+
+const readVarint = (
+    bytes: Uint8Array,
+    position: number,
+): { value: number; next: number } => {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = position; i < bytes.length; i++) {
+        value += (bytes[i] & 0x7f) * multiplier;
+        multiplier *= 0x80;
+        if (!(bytes[i] & 0x80)) {
+            return { value, next: i + 1 };
+        }
+    }
+    throw new Error('truncated varint');
+};
+
+const varintField = (field: number, value: number) =>
+    Buffer.concat([encodeVarint(field << 3), encodeVarint(value)]);
+
+const bytesField = (field: number, value: Uint8Array) =>
+    Buffer.concat([
+        encodeVarint((field << 3) | 2),
+        encodeVarint(value.length),
+        value,
+    ]);
+
+/*
+ * CIDs
+ */
+
+export const parseCid = (cid: string): ParsedCid => {
+    let version: 0 | 1;
+    let codec: number;
+    let multihash: Uint8Array;
+
+    if (cid.startsWith('Qm') && cid.length === 46) {
+        version = 0;
+        codec = DAG_PB_CODEC;
+        multihash = decodeBase58(cid);
+    } else if (cid.startsWith('b')) {
+        const bytes = decodeBase32(cid.slice(1));
+        const cidVersion = readVarint(bytes, 0);
+        if (cidVersion.value !== 1) {
+            throw new Error(`unsupported CID version ${cidVersion.value}`);
+        }
+        const cidCodec = readVarint(bytes, cidVersion.next);
+        version = 1;
+        codec = cidCodec.value;
+        multihash = bytes.slice(cidCodec.next);
+    } else {
+        throw new Error(`unsupported CID encoding ${cid}`);
+    }
+
+    if (codec !== RAW_CODEC && codec !== DAG_PB_CODEC) {
+        throw new Error(`unsupported CID codec 0x${codec.toString(16)}`);
+    }
+    if (
+        multihash.length !== SHA2_256_LENGTH + 2 ||
+        multihash[0] !== SHA2_256_CODE ||
+        multihash[1] !== SHA2_256_LENGTH
+    ) {
+        throw new Error('unsupported multihash, only sha2-256 is supported');
+    }
+
+    return { version, codec, digest: multihash.slice(2) };
+};
+
+const cidBytes = (version: 0 | 1, codec: number, block: Uint8Array) => {
+    const multihash = Buffer.concat([
+        Buffer.from([SHA2_256_CODE, SHA2_256_LENGTH]),
+        crypto.createHash('sha256').update(block).digest(),
+    ]);
+    return version === 0
+        ? multihash
+        : Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]);
+};
+
+const formatCid = (bytes: Uint8Array, version: 0 | 1) =>
+    version === 0 ? encodeBase58(bytes) : `b${encodeBase32(bytes)}`;
+
+/*
+ * UnixFS file import
+ */
+
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+// Block of the file tree, along with what its parent needs to link to it.
+type FileNode = {
+    cid: Uint8Array;
+    // Size of the block and all its descendants.
+    treeSize: number;
+    // Size of the file bytes under the block.
+    fileSize: number;
+};
+
+const encodeUnixFs = (
+    type: number,
+    fileSize: number,
+    data?: Uint8Array,
+    blockSizes: number[] = [],
+) =>
+    Buffer.concat([
+        varintField(1, type),
+        ...(data ? [bytesField(2, data)] : []),
+        varintField(3, fileSize),
+        ...blockSizes.map(size => varintField(4, size)),
+    ]);
+
+// dag-pb nodes hold their links before their data.
+const encodeDagPb = (links: FileNode[], data: Uint8Array) =>
+    Buffer.concat([
+        ...links.map(link =>
+            bytesField(
+                2,
+                Buffer.concat([
+                    bytesField(1, link.cid),
+                    bytesField(2, Buffer.alloc(0)),
+                    varintField(3, link.treeSize),
+                ]),
+            ),
+        ),
+        bytesField(1, data),
+    ]);
+
+const dagPbNode = (
+    version: 0 | 1,
+    links: FileNode[],
+    unixFs: Uint8Array,
+    fileSize: number,
+): FileNode => {
+    const block = encodeDagPb(links, unixFs);
+    return {
+        cid: cidBytes(version, DAG_PB_CODEC, block),
+        treeSize: block.length + links.reduce((sum, l) => sum + l.treeSize, 0),
+        fileSize,
+    };
+};
+
+// Rebuild the CID a file gets when added to IPFS with the balanced layout. CIDv1 files use raw leaves, CIDv0 ones use
+// UnixFS leaves, the first one being typed as a file and the others as raw data like Kubo does.
+export const computeCid = (
+    bytes: Uint8Array,
+    { version, codec }: Pick<ParsedCid, 'version' | 'codec'>,
+    { chunkSize, maxLinks }: ChunkingProfile,
+): string => {
+    if (codec === RAW_CODEC) {
+        return formatCid(cidBytes(version, RAW_CODEC, bytes), version);
+    }
+
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        chunks.push(bytes.subarray(i, i + chunkSize));
+    }
+    // A file fitting in a single chunk is a single UnixFS node. An empty file has no data field at all.
+    if (chunks.length <= 1) {
+        const data = chunks[0] ?? new Uint8Array();
+        const root = dagPbNode(
+            version,
+            [],
+            encodeUnixFs(
+                UNIXFS_FILE,
+                data.length,
+                data.length ? data : undefined,
+            ),
+            data.length,
+        );
+        return formatCid(root.cid, version);
+    }
+
+    let level: FileNode[] = chunks.map((chunk, i) =>
+        version === 1
+            ? {
+                  cid: cidBytes(version, RAW_CODEC, chunk),
+                  treeSize: chunk.length,
+                  fileSize: chunk.length,
+              }
+            : dagPbNode(
+                  version,
+                  [],
+                  encodeUnixFs(
+                      i === 0 ? UNIXFS_FILE : UNIXFS_RAW,
+                      chunk.length,
+                      chunk,
+                  ),
+                  chunk.length,
+              ),
+    );
+    while (level.length > 1) {
+        const parents: FileNode[] = [];
+        for (let i = 0; i < level.length; i += maxLinks) {
+            const links = level.slice(i, i + maxLinks);
+            const fileSize = links.reduce((sum, l) => sum + l.fileSize, 0);
+            parents.push(
+                dagPbNode(
+                    version,
+                    links,
+                    encodeUnixFs(
+                        UNIXFS_FILE,
+                        fileSize,
+                        undefined,
+                        links.map(l => l.fileSize),
+                    ),
+                    fileSize,
+                ),
+            );
+        }
+        level = parents;
+    }
+
+    return formatCid(level[0].cid, version);
+};
+
+// Whether the bytes are the content of the CID, trying each chunking profile in turn.
+// Return the name of the profile that rebuilds the CID, if any.
+export const matchingProfile = (
+    bytes: Uint8Array,
+    cid: string,
+): string | undefined => {
+    const parsedCid = parseCid(cid);
+    return CHUNKING_PROFILES.find(profile =>
+        Buffer.from(
+            parseCid(computeCid(bytes, parsedCid, profile)).digest,
+        ).equals(parsedCid.digest),
+    )?.name;
+};
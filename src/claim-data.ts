@@ -0,0 +1,194 @@
+import { BigNumber, utils } from 'ethers';
+import { IClaimData } from '@zero-labs/tokenization-contracts';
+
+/*
+ * Tolerant decoding of claim data
+ */
+
+// Fields of the claim data, in the order they are ABI encoded.
+const CLAIM_DATA_FIELDS: (keyof IClaimData)[] = [
+    'beneficiary',
+    'region',
+    'countryCode',
+    'periodStartDate',
+    'periodEndDate',
+    'purpose',
+    'consumptionEntityID',
+    'proofID',
+    'data',
+];
+
+const WORD_SIZE = 32;
+
+// ok: decoded as the tuple of strings ClaimDataCoder encodes. legacy-array: decoded as the array of 8 strings older
+// issuers encoded. recovered: decoded with another layout or with ignored bytes, see the warnings. failed: no layout
+// matched, all fields are left empty.
+export type DecodeStatus = 'ok' | 'legacy-array' | 'recovered' | 'failed';
+
+export type DecodedClaimData = {
+    claimDataDecoded: IClaimData;
+    decodeStatus: DecodeStatus;
+    // Why the claim data could not be decoded as is. Warnings never contain commas, so that they can be joined in CSV.
+    decodeWarnings: string[];
+};
+
+const EMPTY_CLAIM_DATA: IClaimData = {
+    beneficiary: '',
+    region: '',
+    countryCode: '',
+    periodStartDate: '',
+    periodEndDate: '',
+    purpose: '',
+    consumptionEntityID: '',
+    proofID: '',
+    data: '',
+};
+
+const readWord = (bytes: Uint8Array, position: number): number => {
+    if (position + WORD_SIZE > bytes.length) {
+        throw new Error(`word at byte ${position} is out of bounds`);
+    }
+    const word = BigNumber.from(bytes.slice(position, position + WORD_SIZE));
+    // Any offset or length beyond the payload is invalid, this also keeps the value a safe integer.
+    if (word.gt(bytes.length)) {
+        throw new Error(`value at byte ${position} exceeds the payload size`);
+    }
+    return word.toNumber();
+};
+
+// Strictly read dynamic strings from an ABI head of offsets: offsets must be word aligned, strings must fit in the
+// payload, be valid UTF-8 and be padded with zeros. Return the strings and the byte at which the last one ends.
+const readStrings = (
+    bytes: Uint8Array,
+    headStart: number,
+    count: number,
+    offsetBase: number,
+): { values: string[]; end: number } => {
+    const values: string[] = [];
+    let end = headStart + count * WORD_SIZE;
+
+    for (let i = 0; i < count; i++) {
+        const offset = readWord(bytes, headStart + i * WORD_SIZE);
+        if (offset % WORD_SIZE) {
+            throw new Error(`offset ${offset} of string ${i} is misaligned`);
+        }
+        const lengthPosition = offsetBase + offset;
+        const length = readWord(bytes, lengthPosition);
+        const dataStart = lengthPosition + WORD_SIZE;
+        const paddedEnd = dataStart + Math.ceil(length / WORD_SIZE) * WORD_SIZE;
+        if (paddedEnd > bytes.length) {
+            throw new Error(`string ${i} overflows the payload`);
+        }
+        if (bytes.slice(dataStart + length, paddedEnd).some(b => b !== 0)) {
+            throw new Error(`string ${i} is not zero padded`);
+        }
+        try {
+            values.push(
+                utils.toUtf8String(bytes.slice(dataStart, dataStart + length)),
+            );
+        } catch {
+            throw new Error(`string ${i} is not valid UTF-8`);
+        }
+        end = Math.max(end, paddedEnd);
+    }
+
+    return { values, end };
+};
+
+// Claim data has been encoded either as a tuple of 9 strings, or by older issuers as a length-prefixed array of
+// strings, without the data field. Decoding the latter as a tuple shifts every offset and returns junk.
+const LAYOUTS: {
+    name: string;
+    read: (bytes: Uint8Array) => { values: string[]; end: number };
+}[] = [
+    {
+        name: 'string tuple',
+        read: bytes => readStrings(bytes, 0, CLAIM_DATA_FIELDS.length, 0),
+    },
+    {
+        name: 'length-prefixed string array',
+        read: bytes => {
+            const count = readWord(bytes, 0);
+            if (
+                count !== CLAIM_DATA_FIELDS.length &&
+                count !== CLAIM_DATA_FIELDS.length - 1
+            ) {
+                throw new Error(`unexpected array length ${count}`);
+            }
+            return readStrings(bytes, WORD_SIZE, count, WORD_SIZE);
+        },
+    },
+];
+
+// Control characters are never part of claim data, they come from bytes decoded out of place.
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/g;
+
+export const decodeClaimData = (claimData: string): DecodedClaimData => {
+    let bytes: Uint8Array;
+    try {
+        bytes = utils.arrayify(claimData);
+    } catch {
+        return {
+            claimDataDecoded: { ...EMPTY_CLAIM_DATA },
+            decodeStatus: 'failed',
+            decodeWarnings: ['claim data is not valid hex'],
+        };
+    }
+
+    const errors: string[] = [];
+    for (const [i, { name, read }] of LAYOUTS.entries()) {
+        let decoded: { values: string[]; end: number };
+        try {
+            decoded = read(bytes);
+        } catch (err) {
+            errors.push(`not a ${name}: ${(err as Error).message}`);
+            continue;
+        }
+
+        // The array of 8 strings is a known layout, it is only worth a warning along with other ones.
+        const isLegacyArray =
+            i > 0 && decoded.values.length === CLAIM_DATA_FIELDS.length - 1;
+        const decodeWarnings: string[] = [];
+        if (i > 0) {
+            decodeWarnings.push(
+                `decoded as a ${name} of ${decoded.values.length} items`,
+            );
+        }
+        if (decoded.end < bytes.length) {
+            decodeWarnings.push(
+                `${bytes.length - decoded.end} trailing bytes ignored`,
+            );
+        }
+
+        const claimDataDecoded = { ...EMPTY_CLAIM_DATA };
+        decoded.values.forEach((value, j) => {
+            const cleaned = value.replace(CONTROL_CHARACTERS, '');
+            if (cleaned !== value) {
+                decodeWarnings.push(
+                    `control characters removed from ${CLAIM_DATA_FIELDS[j]}`,
+                );
+            }
+            claimDataDecoded[CLAIM_DATA_FIELDS[j]] = cleaned;
+        });
+
+        if (isLegacyArray && decodeWarnings.length === 1) {
+            return {
+                claimDataDecoded,
+                decodeStatus: 'legacy-array',
+                decodeWarnings: [],
+            };
+        }
+
+        return {
+            claimDataDecoded,
+            decodeStatus: decodeWarnings.length ? 'recovered' : 'ok',
+            decodeWarnings,
+        };
+    }
+
+    return {
+        claimDataDecoded: { ...EMPTY_CLAIM_DATA },
+        decodeStatus: 'failed',
+        decodeWarnings: errors,
+    };
+};
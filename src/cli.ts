@@ -0,0 +1,384 @@
+import { parseArgs } from 'util';
+import path from 'path';
+
+import {
+    CLAIM_TIME_BASES,
+    ClaimTimeBasis,
+    DEFAULT_CONFIRMATIONS,
+    DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+    DEFAULT_TIME_SERIES_OPTIONS,
+    ENERGY_UNITS,
+    EnergyUnit,
+    EventFilter,
+    TIME_SERIES_GRANULARITIES,
+    TimeSeriesGranularity,
+    TIME_SERIES_ENERGY_COLUMNS,
+    buildTimeSeries,
+    exportEwcData,
+    filterEwcEvents,
+    filterReconciliation,
+    loadEwcEvents,
+    parseEwcData,
+    printEwcSummary,
+    reconcile,
+    statementsCacheDir,
+    syncEwcData,
+    verifyStatements,
+    withEnergyColumns,
+} from './index';
+import { OUTPUT_FORMATS, OutputFormat, writeOutput } from './writers';
+import { LOG_LEVELS, LogLevel, logger, setLogLevel } from './logger';
+import { DEFAULT_LOG_FETCHER_OPTIONS } from './log-fetcher';
+import {
+    DEFAULT_CONFIG_FILE,
+    DEFAULT_DEPLOYMENT,
+    loadDeployment,
+} from './config';
+
+/*
+ * Command line interface
+ */
+
+const USAGE = `Usage: npm run script -- <command> [options]
+
+Commands:
+    sync        Fetch events from Energy Web Chain into the local event store
+    report      Print the totals computed from the local event store
+    export      Write the CSV files computed from the local event store
+    verify-statements
+                Download the redemption statements from IPFS and check them against their CIDs
+    time-series Write the amounts minted, signed, filled and claimed per period, and their cumulative sums
+
+Options:
+    --config <file>             Deployments configuration file (default: ${DEFAULT_CONFIG_FILE})
+    --deployment <name>         Deployment to analyse, as named in the configuration file (default: ${DEFAULT_DEPLOYMENT})
+    --rpc-url <url>             RPC endpoint overriding the ones of the deployment
+    --out-dir <dir>             Directory the files are exported to (default: ${__dirname})
+    --format <format>           Format of the exported files, one of ${OUTPUT_FORMATS.join(
+        ', ',
+    )} (default: csv)
+    --from-block <number>       First block to sync events from (default: 0), or to keep records from on the other commands
+    --to-block <number>         Last block to sync events to (default and maximum: latest confirmed block), or to keep records to on the other commands
+    --from-date <date>          Keep records from that ISO-8601 date or time, on all commands but sync
+    --to-date <date>            Keep records to that ISO-8601 date (included) or time, on all commands but sync
+    --confirmations <number>    Blocks below the chain head that are not synced yet (default: ${DEFAULT_CONFIRMATIONS})
+    --block-window <number>     Blocks requested in a single eth_getLogs call on sync, halved when the RPC rejects the range (default: ${
+        DEFAULT_LOG_FETCHER_OPTIONS.blockWindow
+    })
+    --max-retries <number>      Times an RPC request failing with a transient error is retried on sync (default: ${
+        DEFAULT_LOG_FETCHER_OPTIONS.maxRetries
+    })
+    --granularity <period>      Period of the time series, one of ${TIME_SERIES_GRANULARITIES.join(
+        ', ',
+    )} (default: ${DEFAULT_TIME_SERIES_OPTIONS.granularity})
+    --claim-time <basis>        Time claims are bucketed by in the time series, one of ${CLAIM_TIME_BASES.join(
+        ', ',
+    )} (default: ${DEFAULT_TIME_SERIES_OPTIONS.claimTime})
+    --unit <unit>               Unit amounts are printed in, and converted to in extra columns of the exported files, one of ${ENERGY_UNITS.join(
+        ', ',
+    )} (default: largest fitting unit when printed, no extra columns when exported)
+    --full-inventory            Also export every minted certificate and claim, including the ones in no agreement
+    --offline                   Do not reach the RPC on report and export, skipping the balances reconciliation
+    --ipfs-gateway <url>        IPFS gateway redemption statements are downloaded from (default: ${
+        DEFAULT_STATEMENT_VERIFICATION_OPTIONS.gatewayUrl
+    })
+    --ipfs-api <url>            RPC API of a local IPFS node to download redemption statements from instead
+    --record <file>             Save every RPC request and response to a fixture file
+    --replay <file>             Answer RPC requests from a fixture file instead of reaching the network
+    --log-level <level>         One of ${LOG_LEVELS.join(', ')} (default: info)
+    -h, --help                  Show this help
+`;
+
+const COMMANDS = [
+    'sync',
+    'report',
+    'export',
+    'verify-statements',
+    'time-series',
+] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+const parseBlockNumber = (name: string, value?: string) => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new Error(
+            `--${name} must be a non-negative integer, got: ${value}`,
+        );
+    }
+    return parseInt(value, 10);
+};
+
+// A window of 0 blocks would never move forward.
+const parseBlockWindow = (value?: string) => {
+    const blockWindow = parseBlockNumber('block-window', value);
+    if (blockWindow === 0) {
+        throw new Error('--block-window must be at least 1');
+    }
+    return blockWindow;
+};
+
+// A date without time as upper bound includes the whole day.
+const parseDate = (name: string, value?: string, endOfDay = false) => {
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`--${name} must be an ISO-8601 date, got: ${value}`);
+    }
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', default: DEFAULT_CONFIG_FILE },
+            deployment: { type: 'string', default: DEFAULT_DEPLOYMENT },
+            'rpc-url': { type: 'string' },
+            'out-dir': { type: 'string', default: __dirname },
+            format: { type: 'string', default: 'csv' },
+            'from-block': { type: 'string' },
+            'to-block': { type: 'string' },
+            'from-date': { type: 'string' },
+            'to-date': { type: 'string' },
+            confirmations: { type: 'string' },
+            'block-window': { type: 'string' },
+            'max-retries': { type: 'string' },
+            granularity: {
+                type: 'string',
+                default: DEFAULT_TIME_SERIES_OPTIONS.granularity,
+            },
+            'claim-time': {
+                type: 'string',
+                default: DEFAULT_TIME_SERIES_OPTIONS.claimTime,
+            },
+            unit: { type: 'string' },
+            'full-inventory': { type: 'boolean', default: false },
+            offline: { type: 'boolean', default: false },
+            'ipfs-gateway': {
+                type: 'string',
+                default: DEFAULT_STATEMENT_VERIFICATION_OPTIONS.gatewayUrl,
+            },
+            'ipfs-api': { type: 'string' },
+            record: { type: 'string' },
+            replay: { type: 'string' },
+            'log-level': { type: 'string', default: 'info' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.info(USAGE);
+        return;
+    }
+
+    const [command, ...extraPositionals] = positionals;
+    if (!COMMANDS.includes(command as Command) || extraPositionals.length) {
+        throw new Error(
+            command
+                ? `Unknown command: ${positionals.join(' ')}\n\n${USAGE}`
+                : `Missing command\n\n${USAGE}`,
+        );
+    }
+
+    if (!LOG_LEVELS.includes(values['log-level'] as LogLevel)) {
+        throw new Error(
+            `--log-level must be one of ${LOG_LEVELS.join(', ')}, got: ${
+                values['log-level']
+            }`,
+        );
+    }
+    setLogLevel(values['log-level'] as LogLevel);
+
+    if (!OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+        throw new Error(
+            `--format must be one of ${OUTPUT_FORMATS.join(', ')}, got: ${
+                values.format
+            }`,
+        );
+    }
+
+    if (
+        !TIME_SERIES_GRANULARITIES.includes(
+            values.granularity as TimeSeriesGranularity,
+        )
+    ) {
+        throw new Error(
+            `--granularity must be one of ${TIME_SERIES_GRANULARITIES.join(
+                ', ',
+            )}, got: ${values.granularity}`,
+        );
+    }
+
+    if (!CLAIM_TIME_BASES.includes(values['claim-time'] as ClaimTimeBasis)) {
+        throw new Error(
+            `--claim-time must be one of ${CLAIM_TIME_BASES.join(', ')}, got: ${
+                values['claim-time']
+            }`,
+        );
+    }
+
+    if (values.unit && !ENERGY_UNITS.includes(values.unit as EnergyUnit)) {
+        throw new Error(
+            `--unit must be one of ${ENERGY_UNITS.join(', ')}, got: ${
+                values.unit
+            }`,
+        );
+    }
+    const unit = values.unit as EnergyUnit | undefined;
+
+    if (unit && values.format === 'sqlite') {
+        throw new Error(
+            '--unit only applies to csv, json and ndjson, the SQLite database holds amounts in Wh',
+        );
+    }
+
+    if (values['full-inventory'] && values.format === 'sqlite') {
+        throw new Error(
+            '--full-inventory only applies to csv, json and ndjson, the SQLite database always holds every minted certificate and claim with its classification',
+        );
+    }
+
+    const deployment = loadDeployment(values.config!, values.deployment!);
+    if (values['rpc-url']) {
+        deployment.rpcUrls = [values['rpc-url']];
+    }
+    if (values.record && values.replay) {
+        throw new Error('--record and --replay can not be used together');
+    }
+    if (values.record) {
+        deployment.rpcFixture = {
+            mode: 'record',
+            file: path.resolve(values.record),
+        };
+    }
+    if (values.replay) {
+        deployment.rpcFixture = {
+            mode: 'replay',
+            file: path.resolve(values.replay),
+        };
+    }
+
+    // Block bounds limit the sync range on sync, and filter the synced events on the other commands.
+    const filter: EventFilter = {
+        fromBlock: parseBlockNumber('from-block', values['from-block']),
+        toBlock: parseBlockNumber('to-block', values['to-block']),
+        fromDate: parseDate('from-date', values['from-date']),
+        toDate: parseDate('to-date', values['to-date'], true),
+    };
+    if (command === 'sync' && (filter.fromDate || filter.toDate)) {
+        throw new Error(
+            '--from-date and --to-date do not apply to sync, which is bounded by --from-block and --to-block',
+        );
+    }
+
+    switch (command as Command) {
+        case 'sync':
+            await syncEwcData({
+                deployment,
+                fromBlock: filter.fromBlock ?? 0,
+                toBlock: filter.toBlock,
+                confirmations:
+                    parseBlockNumber('confirmations', values.confirmations) ??
+                    DEFAULT_CONFIRMATIONS,
+                blockWindow: parseBlockWindow(values['block-window']),
+                maxRetries: parseBlockNumber(
+                    'max-retries',
+                    values['max-retries'],
+                ),
+            });
+            break;
+        case 'report':
+            printEwcSummary(
+                await parseEwcData({
+                    deployment,
+                    offline: values.offline!,
+                    filter,
+                }),
+                unit,
+            );
+            break;
+        case 'export':
+            await exportEwcData(
+                await parseEwcData({
+                    deployment,
+                    offline: values.offline!,
+                    filter,
+                }),
+                values['out-dir']!,
+                values.format as OutputFormat,
+                values['full-inventory'],
+                unit,
+            );
+            break;
+        case 'verify-statements': {
+            if (values.format === 'sqlite') {
+                throw new Error(
+                    '--format sqlite is not supported by verify-statements',
+                );
+            }
+            const { batches } = filterReconciliation(
+                reconcile(await loadEwcEvents(deployment)),
+                filter,
+            );
+            await writeOutput(
+                values['out-dir']!,
+                'statement-verifications',
+                await verifyStatements(batches, {
+                    ...DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+                    cacheDir: statementsCacheDir(deployment),
+                    gatewayUrl: values['ipfs-gateway']!,
+                    ipfsApiUrl: values['ipfs-api'],
+                }),
+                values.format as Exclude<OutputFormat, 'sqlite'>,
+            );
+            break;
+        }
+        case 'time-series': {
+            if (values.format === 'sqlite') {
+                throw new Error(
+                    '--format sqlite is not supported by time-series',
+                );
+            }
+            const allEvents = await loadEwcEvents(deployment);
+            await writeOutput(
+                values['out-dir']!,
+                `time-series-${values.granularity}`,
+                withEnergyColumns(
+                    buildTimeSeries(
+                        {
+                            ...filterReconciliation(
+                                reconcile(allEvents),
+                                filter,
+                            ),
+                            events: filterEwcEvents(allEvents, filter),
+                        },
+                        {
+                            granularity:
+                                values.granularity as TimeSeriesGranularity,
+                            claimTime: values['claim-time'] as ClaimTimeBasis,
+                        },
+                    ),
+                    TIME_SERIES_ENERGY_COLUMNS,
+                    unit ?? 'Wh',
+                ),
+                values.format as Exclude<OutputFormat, 'sqlite'>,
+            );
+            break;
+        }
+    }
+};
+
+main().catch(err => {
+    logger.error(
+        `Error while trying to parse Energy Web Chain data: ${err.message}`,
+    );
+    process.exitCode = 1;
+});
@@ -0,0 +1,155 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+import {
+    RecordingProvider,
+    ReplayProvider,
+    RpcFixtureOptions,
+} from './rpc-fixture';
+
+/*
+ * Deployments configuration
+ */
+
+type ContractConfig = {
+    address: string;
+    // Block at which the contract was deployed, no event is fetched before it.
+    startBlock: number;
+};
+
+export type DeploymentContracts = {
+    registryExtended: ContractConfig;
+    batchFactory: ContractConfig;
+    agreementFactory: ContractConfig;
+};
+
+export type Deployment = {
+    // Name of the deployment in the configuration file, also used to separate local caches.
+    name: string;
+    chainId: number;
+    // RPC endpoints, used as fallbacks of each other when more than one is set.
+    rpcUrls: string[];
+    contracts: DeploymentContracts;
+    // Record the RPC traffic to a fixture file, or replay it from one. Not read from the configuration file.
+    rpcFixture?: RpcFixtureOptions;
+};
+
+export const DEFAULT_CONFIG_FILE = path.resolve(
+    __dirname,
+    '../deployments.json',
+);
+
+export const DEFAULT_DEPLOYMENT = 'mainnet';
+
+const CONTRACT_NAMES: (keyof DeploymentContracts)[] = [
+    'registryExtended',
+    'batchFactory',
+    'agreementFactory',
+];
+
+export const loadDeployment = (
+    configFile: string,
+    name: string,
+): Deployment => {
+    if (!fs.existsSync(configFile)) {
+        throw new Error(`Configuration file not found: ${configFile}`);
+    }
+    const deployments = JSON.parse(fs.readFileSync(configFile).toString());
+    const deployment = deployments[name];
+    if (!deployment) {
+        throw new Error(
+            `Deployment ${name} not found in ${configFile}, available deployments: ${Object.keys(
+                deployments,
+            ).join(', ')}`,
+        );
+    }
+
+    if (!Number.isInteger(deployment.chainId)) {
+        throw new Error(`Deployment ${name} has no valid chainId`);
+    }
+    if (
+        !Array.isArray(deployment.rpcUrls) ||
+        !deployment.rpcUrls.length ||
+        deployment.rpcUrls.some((url: unknown) => typeof url !== 'string')
+    ) {
+        throw new Error(`Deployment ${name} has no valid rpcUrls`);
+    }
+    for (const contractName of CONTRACT_NAMES) {
+        const contract = deployment.contracts?.[contractName];
+        if (!contract || !ethers.utils.isAddress(contract.address)) {
+            throw new Error(
+                `Deployment ${name} has no valid ${contractName} contract address`,
+            );
+        }
+        if (
+            contract.startBlock !== undefined &&
+            !(Number.isInteger(contract.startBlock) && contract.startBlock >= 0)
+        ) {
+            throw new Error(
+                `Deployment ${name} has no valid ${contractName} start block`,
+            );
+        }
+    }
+
+    return {
+        name,
+        chainId: deployment.chainId,
+        rpcUrls: deployment.rpcUrls,
+        contracts: {
+            registryExtended: {
+                address: deployment.contracts.registryExtended.address,
+                startBlock:
+                    deployment.contracts.registryExtended.startBlock ?? 0,
+            },
+            batchFactory: {
+                address: deployment.contracts.batchFactory.address,
+                startBlock: deployment.contracts.batchFactory.startBlock ?? 0,
+            },
+            agreementFactory: {
+                address: deployment.contracts.agreementFactory.address,
+                startBlock:
+                    deployment.contracts.agreementFactory.startBlock ?? 0,
+            },
+        },
+    };
+};
+
+export const createProvider = (
+    deployment: Deployment,
+): ethers.providers.Provider => {
+    const { rpcFixture } = deployment;
+    if (rpcFixture?.mode === 'replay') {
+        return new ReplayProvider(rpcFixture.file);
+    }
+
+    const createUrlProvider = (url: string) =>
+        rpcFixture?.mode === 'record'
+            ? new RecordingProvider(url, rpcFixture.file)
+            : new ethers.providers.StaticJsonRpcProvider(url);
+
+    if (deployment.rpcUrls.length === 1) {
+        return createUrlProvider(deployment.rpcUrls[0]);
+    }
+
+    return new ethers.providers.FallbackProvider(
+        deployment.rpcUrls.map((url, i) => ({
+            provider: createUrlProvider(url),
+            priority: i + 1,
+        })),
+        1,
+    );
+};
+
+// Make sure the RPC serves the chain the deployment has been made on.
+export const checkChainId = async (
+    provider: ethers.providers.Provider,
+    deployment: Deployment,
+) => {
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== deployment.chainId) {
+        throw new Error(
+            `Connected to chain ${chainId} while deployment ${deployment.name} is on chain ${deployment.chainId}`,
+        );
+    }
+};
@@ -0,0 +1,157 @@
+import { buildStorageProviderReports } from './storage-providers';
+import { logger } from './logger';
+import { EwcEvent, EwcEvents, Reconciliation } from './types';
+
+/*
+ * Block and date range filtering of events and records
+ */
+
+// All bounds are inclusive and optional.
+export type EventFilter = {
+    fromBlock?: number;
+    toBlock?: number;
+    fromDate?: Date;
+    toDate?: Date;
+};
+
+// Keys of the events arrays, the other keys hold data that is not filtered.
+type EventsKey = Exclude<
+    keyof EwcEvents,
+    'agreementsData' | 'blockTimestamps' | 'lastSyncedBlock'
+>;
+
+const EVENTS_KEYS: EventsKey[] = [
+    'agreementsDeployed',
+    'agreementSigned',
+    'agreementFilled',
+    'agreementClaimed',
+    'agreementInvalidated',
+    'transferSingle',
+    'transferBatch',
+    'transferBatchMultiple',
+    'redemptionStatementSet',
+    'certificateBatchMinted',
+    'claimSingle',
+    'claimBatch',
+    'claimBatchMultiple',
+];
+
+export const isEventFilterEmpty = (filter: EventFilter) =>
+    Object.values(filter).every(bound => bound === undefined);
+
+// Whether a block, whose time in milliseconds may be unknown, is within the range. Blocks whose time is unknown are out
+// of any date range.
+const isBlockInRange = (
+    { fromBlock, toBlock, fromDate, toDate }: EventFilter,
+    blockNumber: number,
+    time: number | undefined,
+) => {
+    if (fromBlock !== undefined && blockNumber < fromBlock) {
+        return false;
+    }
+    if (toBlock !== undefined && blockNumber > toBlock) {
+        return false;
+    }
+    if (fromDate === undefined && toDate === undefined) {
+        return true;
+    }
+    if (time === undefined) {
+        return false;
+    }
+    if (fromDate !== undefined && time < fromDate.getTime()) {
+        return false;
+    }
+    return toDate === undefined || time <= toDate.getTime();
+};
+
+const hasDateBound = ({ fromDate, toDate }: EventFilter) =>
+    fromDate !== undefined || toDate !== undefined;
+
+// Keep only the events emitted within the range, as the raw events of the filtered data. Events whose block timestamp
+// is unknown are left out when filtering by date.
+export const filterEwcEvents = (
+    events: EwcEvents,
+    filter: EventFilter,
+): EwcEvents => {
+    let eventsWithoutTimestamp = 0;
+    const isInRange = ({ blockNumber, blockHash }: EwcEvent<unknown>) => {
+        const timestamp = events.blockTimestamps[blockHash];
+        if (timestamp === undefined && hasDateBound(filter)) {
+            eventsWithoutTimestamp++;
+        }
+        return isBlockInRange(
+            filter,
+            blockNumber,
+            timestamp === undefined ? undefined : timestamp * 1000,
+        );
+    };
+
+    const filteredEvents = { ...events };
+    for (const key of EVENTS_KEYS) {
+        (filteredEvents[key] as EwcEvent<unknown>[]) = (
+            events[key] as EwcEvent<unknown>[]
+        ).filter(isInRange);
+    }
+
+    if (eventsWithoutTimestamp) {
+        logger.warn(
+            `\t${eventsWithoutTimestamp} events left out of the date range as their block timestamp is unknown, run a sync first\n`,
+        );
+    }
+
+    return filteredEvents;
+};
+
+// Keep only the records emitted within the range, from a reconciliation of all the events: a claim in the range is kept
+// even when its certificate was minted, batched or filled into an agreement before. Storage providers are reported from
+// the claims kept. Custodies, balances, anomalies and agreement lifecycles depend on the whole history and are kept as is.
+export const filterReconciliation = (
+    reconciliation: Reconciliation,
+    filter: EventFilter,
+): Reconciliation => {
+    let recordsWithoutTimestamp = 0;
+    const isInRange = ({
+        blockNumber,
+        timestamp,
+    }: {
+        blockNumber: number;
+        timestamp: string;
+    }) => {
+        if (!timestamp && hasDateBound(filter)) {
+            recordsWithoutTimestamp++;
+        }
+        return isBlockInRange(
+            filter,
+            blockNumber,
+            timestamp ? Date.parse(timestamp) : undefined,
+        );
+    };
+
+    const inventoryClaims = reconciliation.inventory.claims.filter(isInRange);
+    const filteredReconciliation: Reconciliation = {
+        ...reconciliation,
+        agreements: reconciliation.agreements.filter(isInRange),
+        batches: reconciliation.batches.filter(isInRange),
+        certificates: reconciliation.certificates.filter(isInRange),
+        claims: reconciliation.claims.filter(isInRange),
+        transfers: reconciliation.transfers.filter(isInRange),
+        storageProviders: buildStorageProviderReports(
+            inventoryClaims,
+            reconciliation.inventory.certificates,
+            reconciliation.batches,
+        ),
+        inventory: {
+            certificates:
+                reconciliation.inventory.certificates.filter(isInRange),
+            claims: inventoryClaims,
+        },
+    };
+
+    if (recordsWithoutTimestamp) {
+        logger.warn(
+            `\t${recordsWithoutTimestamp} records left out of the date range as their block timestamp is unknown, run a sync first\n`,
+        );
+    }
+
+    return filteredReconciliation;
+};
@@ -0,0 +1,216 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+import { LogFetcherOptions, fetchEvents } from './log-fetcher';
+import { writeFileAtomic } from './files';
+import {
+    DEFAULT_REORG_CHECK_DEPTH,
+    findRollbackBlock,
+    getBlockHash,
+} from './reorg';
+import { logger } from './logger';
+
+/*
+ * Persistent incremental event store
+ */
+
+// Raw log as returned by eth_getLogs, without any decoded field.
+type StoredLog = {
+    blockNumber: number;
+    blockHash: string;
+    transactionIndex: number;
+    removed: boolean;
+    address: string;
+    data: string;
+    topics: string[];
+    transactionHash: string;
+    logIndex: number;
+};
+
+type EventStoreFile = {
+    // First block from which logs have been fetched. Stores written before it was recorded are assumed to hold every
+    // log up to their last synced block.
+    firstSyncedBlock?: number;
+    // Last block up to which logs have been fetched.
+    lastSyncedBlock: number;
+    // Hash of the last synced block, used to detect reorganisations happening after the sync.
+    lastSyncedBlockHash?: string;
+    logs: StoredLog[];
+};
+
+// Logs are stored in one file per contract and event.
+const eventStoreFilePath = (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+) =>
+    path.resolve(storeDir, contract.address.toLowerCase(), `${eventName}.json`);
+
+const readEventStore = (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+): EventStoreFile => {
+    const filePath = eventStoreFilePath(storeDir, contract, eventName);
+    if (!fs.existsSync(filePath)) {
+        return { lastSyncedBlock: -1, logs: [] };
+    }
+
+    return JSON.parse(fs.readFileSync(filePath).toString());
+};
+
+const writeEventStore = (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+    store: EventStoreFile,
+) => {
+    writeFileAtomic(
+        eventStoreFilePath(storeDir, contract, eventName),
+        JSON.stringify(store),
+    );
+};
+
+const toStoredLog = (event: ethers.Event): StoredLog => ({
+    blockNumber: event.blockNumber,
+    blockHash: event.blockHash,
+    transactionIndex: event.transactionIndex,
+    removed: event.removed,
+    address: event.address,
+    data: event.data,
+    topics: event.topics,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+});
+
+// Decode stored logs with the contract interface, the same way queryFilter does. Only the decoded fields are set, the
+// helpers that need a provider (getBlock, getTransaction...) are not available on events read from the store.
+const toEvents = (
+    contract: ethers.Contract,
+    logs: StoredLog[],
+): ethers.Event[] =>
+    logs.map(log => {
+        const { name, signature, args } = contract.interface.parseLog(log);
+
+        return {
+            ...log,
+            event: name,
+            eventSignature: signature,
+            args,
+        } as ethers.Event;
+    });
+
+// Fetch the logs emitted since the last synced block, append them to the store and return all stored events. The tip of
+// the store is checked first: logs from blocks that are no longer on the chain are rolled back and fetched again. The
+// stored blocks always form a single range, so that asking for blocks before the first synced one backfills them.
+export const syncEvents = async (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+    options: LogFetcherOptions,
+    reorgCheckDepth: number = DEFAULT_REORG_CHECK_DEPTH,
+): Promise<ethers.Event[]> => {
+    const store = readEventStore(storeDir, contract, eventName);
+    const toBlock =
+        options.toBlock ?? (await contract.provider.getBlockNumber());
+
+    if (store.lastSyncedBlock >= 0) {
+        const rollbackBlock = await findRollbackBlock(
+            contract.provider,
+            [
+                ...store.logs,
+                {
+                    blockNumber: store.lastSyncedBlock,
+                    blockHash: store.lastSyncedBlockHash,
+                },
+            ],
+            store.lastSyncedBlock - reorgCheckDepth + 1,
+        );
+
+        if (rollbackBlock !== undefined) {
+            logger.warn(
+                `\t\t\tReorganisation detected, rolling back stored ${eventName} events to block ${rollbackBlock}\n`,
+            );
+            store.logs = store.logs.filter(
+                log => log.blockNumber <= rollbackBlock,
+            );
+            // A store rolled back before its first synced block is emptied, and synced again from the first requested
+            // block.
+            if (rollbackBlock < (store.firstSyncedBlock ?? 0)) {
+                store.firstSyncedBlock = undefined;
+                store.lastSyncedBlock = -1;
+            } else {
+                store.lastSyncedBlock = rollbackBlock;
+            }
+            store.lastSyncedBlockHash = undefined;
+            writeEventStore(storeDir, contract, eventName, store);
+        }
+    }
+
+    const fetchRange = (fromBlock: number, toBlock: number) =>
+        fetchEvents(contract, contract.filters[eventName](), {
+            ...options,
+            fromBlock,
+            toBlock,
+        }).then(events => events.map(toStoredLog));
+
+    // An empty store is synced from the first requested block.
+    if (store.lastSyncedBlock < 0) {
+        store.firstSyncedBlock = options.fromBlock;
+        store.lastSyncedBlock = options.fromBlock - 1;
+    }
+
+    const firstSyncedBlock = store.firstSyncedBlock ?? 0;
+    if (options.fromBlock < firstSyncedBlock) {
+        logger.info(
+            `\t\t\tBackfilling stored ${eventName} events from block ${
+                options.fromBlock
+            } to block ${firstSyncedBlock - 1}\n`,
+        );
+        store.logs = [
+            ...(await fetchRange(options.fromBlock, firstSyncedBlock - 1)),
+            ...store.logs,
+        ];
+        store.firstSyncedBlock = options.fromBlock;
+        writeEventStore(storeDir, contract, eventName, store);
+    }
+
+    // Fetching from a later block than the last synced one would leave a gap in the store.
+    if (toBlock > store.lastSyncedBlock) {
+        store.logs.push(
+            ...(await fetchRange(store.lastSyncedBlock + 1, toBlock)),
+        );
+        store.lastSyncedBlock = toBlock;
+        store.lastSyncedBlockHash = await getBlockHash(
+            contract.provider,
+            toBlock,
+        );
+        writeEventStore(storeDir, contract, eventName, store);
+    }
+
+    return toEvents(contract, store.logs);
+};
+
+// Return the last block the stored events were synced to, -1 when they have never been synced.
+export const loadLastSyncedBlock = (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+): number => readEventStore(storeDir, contract, eventName).lastSyncedBlock;
+
+// Return the stored events without reaching the network.
+export const loadEvents = (
+    storeDir: string,
+    contract: ethers.Contract,
+    eventName: string,
+): ethers.Event[] => {
+    const store = readEventStore(storeDir, contract, eventName);
+    if (store.lastSyncedBlock < 0) {
+        logger.warn(
+            `\t\t\tNo stored ${eventName} events for contract ${contract.address}, run a sync first\n`,
+        );
+    }
+
+    return toEvents(contract, store.logs);
+};
@@ -0,0 +1,571 @@
+import { BigNumber, ethers } from 'ethers';
+import Papa from 'papaparse';
+import fs from 'fs';
+import path from 'path';
+
+import registryExtendedConfig from './registry-extended';
+import batchFactoryConfig from './batch-factory';
+import agreementFactoryConfig from './agreement-factory';
+import { DEFAULT_LOG_FETCHER_OPTIONS, LogFetcherOptions } from './log-fetcher';
+import { loadEvents, loadLastSyncedBlock, syncEvents } from './event-store';
+import { DEFAULT_REORG_CHECK_DEPTH, findRollbackBlock } from './reorg';
+import { readBlockTimestamps, syncBlockTimestamps } from './block-timestamps';
+import { logger } from './logger';
+import {
+    Deployment,
+    DeploymentContracts,
+    checkChainId,
+    createProvider,
+} from './config';
+import {
+    AgreementClaimedArgs,
+    AgreementInvalidatedArgs,
+    AgreementData,
+    AgreementFilledArgs,
+    AgreementSignedArgs,
+    AgreementsDeployedArgs,
+    CertificateBatchMintedArgs,
+    ClaimBatchArgs,
+    ClaimBatchMultipleArgs,
+    ClaimSingleArgs,
+    EwcEvent,
+    EwcEvents,
+    MintedArgs,
+    RedemptionSetArgs,
+    TransferBatchArgs,
+    TransferBatchMultipleArgs,
+} from './types';
+
+/*
+ * Fetching of Energy Web Chain events
+ */
+
+type AgreementDataCached = AgreementData & {
+    blockId: string;
+    blockHash: string;
+    address: string;
+    amount: string;
+};
+
+// Local caches are kept apart for each deployment.
+const cacheDir = (deployment: Deployment) =>
+    path.resolve(__dirname, './cache', deployment.name);
+
+const eventStoreDir = (deployment: Deployment) =>
+    path.resolve(cacheDir(deployment), 'events');
+
+// Redemption statements downloaded from IPFS, one file per CID.
+export const statementsCacheDir = (deployment: Deployment) =>
+    path.resolve(cacheDir(deployment), 'statements');
+
+const agreementsDataCacheFile = (deployment: Deployment) =>
+    path.resolve(cacheDir(deployment), 'agreements-data-cache.csv');
+
+const blockTimestampsCacheFile = (deployment: Deployment) =>
+    path.resolve(cacheDir(deployment), 'block-timestamps.json');
+
+const AGREEMENTS_DATA_CACHE_COLUMNS: (keyof AgreementDataCached)[] = [
+    'blockId',
+    'blockHash',
+    'address',
+    'buyer',
+    'seller',
+    'amount',
+    'metadata',
+    'valid',
+];
+
+// Number of blocks below the chain head that are not synced yet, as they could still be reorganised.
+export const DEFAULT_CONFIRMATIONS = 12;
+
+// Events synced to the event store, per contract.
+const EWC_EVENTS: { [contract in keyof DeploymentContracts]: string[] } = {
+    agreementFactory: [
+        'AgreementsDeployed',
+        'AgreementSigned',
+        'AgreementFilled',
+        'AgreementClaimed',
+        'AgreementInvalidated',
+    ],
+    registryExtended: [
+        'TransferSingle',
+        'TransferBatch',
+        'TransferBatchMultiple',
+        'ClaimSingle',
+        'ClaimBatch',
+        'ClaimBatchMultiple',
+    ],
+    batchFactory: ['RedemptionStatementSet', 'CertificateBatchMinted'],
+};
+
+export type SyncOptions = {
+    deployment: Deployment;
+    // First block to sync events from, contracts are never synced before their start block.
+    fromBlock: number;
+    // Last block to sync events to, at most the latest confirmed block which is the default.
+    toBlock?: number;
+    // Number of blocks below the chain head that are not synced yet.
+    confirmations: number;
+    // Number of blocks requested in a single eth_getLogs call, halved when the RPC rejects the range.
+    blockWindow?: number;
+    // Number of times a request failing with a transient error is retried.
+    maxRetries?: number;
+};
+
+export const getEwfContractsInstances = (deployment: Deployment) => {
+    const ewfProvider = createProvider(deployment);
+
+    return {
+        registryExtendedContract: new ethers.Contract(
+            deployment.contracts.registryExtended.address,
+            registryExtendedConfig.abi,
+            ewfProvider,
+        ),
+        batchFactoryContract: new ethers.Contract(
+            deployment.contracts.batchFactory.address,
+            batchFactoryConfig.abi,
+            ewfProvider,
+        ),
+        agreementFactoryContract: new ethers.Contract(
+            deployment.contracts.agreementFactory.address,
+            agreementFactoryConfig.abi,
+            ewfProvider,
+        ),
+    };
+};
+
+export const syncEwcData = async ({
+    deployment,
+    fromBlock,
+    toBlock,
+    confirmations,
+    blockWindow = DEFAULT_LOG_FETCHER_OPTIONS.blockWindow,
+    maxRetries = DEFAULT_LOG_FETCHER_OPTIONS.maxRetries,
+}: SyncOptions) => {
+    logger.info(
+        `Starting process to sync data from Energy Web Chain (${deployment.name})...\n`,
+    );
+
+    const {
+        registryExtendedContract,
+        batchFactoryContract,
+        agreementFactoryContract,
+    } = getEwfContractsInstances(deployment);
+    const contracts = {
+        registryExtended: registryExtendedContract,
+        batchFactory: batchFactoryContract,
+        agreementFactory: agreementFactoryContract,
+    };
+
+    await checkChainId(registryExtendedContract.provider, deployment);
+
+    // Pin the last block so that all events are fetched over the same range. Blocks that are not confirmed yet are never
+    // synced, even when asked for, as they could still be reorganised or not be mined at all.
+    const lastConfirmedBlock =
+        (await registryExtendedContract.provider.getBlockNumber()) -
+        confirmations;
+    if (toBlock !== undefined && toBlock > lastConfirmedBlock) {
+        logger.warn(
+            `\tBlock ${toBlock} is above the latest confirmed block, syncing up to block ${lastConfirmedBlock}\n`,
+        );
+    }
+    const lastBlock = Math.min(
+        toBlock ?? lastConfirmedBlock,
+        lastConfirmedBlock,
+    );
+
+    // Blocks of all stored events, whose timestamps are fetched once the events are synced.
+    const blockHashes: string[] = [];
+
+    for (const contractName of Object.keys(
+        EWC_EVENTS,
+    ) as (keyof DeploymentContracts)[]) {
+        const logFetcherOptions: LogFetcherOptions = {
+            ...DEFAULT_LOG_FETCHER_OPTIONS,
+            blockWindow,
+            maxRetries,
+            fromBlock: Math.max(
+                fromBlock,
+                deployment.contracts[contractName].startBlock,
+            ),
+            toBlock: lastBlock,
+        };
+
+        for (const eventName of EWC_EVENTS[contractName]) {
+            const events = await syncEvents(
+                eventStoreDir(deployment),
+                contracts[contractName],
+                eventName,
+                logFetcherOptions,
+            );
+
+            logger.info(`\tSynced ${events.length} ${eventName} events\n`);
+            blockHashes.push(...events.map(e => e.blockHash));
+        }
+    }
+
+    await syncAgreementsData(
+        agreementsDataCacheFile(deployment),
+        agreementFactoryContract,
+        loadEvents(
+            eventStoreDir(deployment),
+            agreementFactoryContract,
+            'AgreementSigned',
+        ),
+    );
+
+    await syncBlockTimestamps(
+        blockTimestampsCacheFile(deployment),
+        registryExtendedContract.provider,
+        blockHashes,
+    );
+
+    logger.info(`Finished syncing data from Energy Web Chain\n`);
+};
+
+// Fetch the data of every signed agreement that is not cached yet, rolling back the cache tip on reorganisations.
+export const syncAgreementsData = async (
+    agreementsDataCache: string,
+    agreementFactoryContract: ethers.Contract,
+    agreementSignedEvents: ethers.Event[],
+) => {
+    logger.info(`\tUpdating agreements data cache\n`);
+
+    let cachedAgreementsData = await readAgreementsDataCache(
+        agreementsDataCache,
+    );
+
+    // Roll back cached agreements whose block is no longer on the chain, so that they are fetched again.
+    if (cachedAgreementsData.length) {
+        const cachedBlocks = cachedAgreementsData.map(a => ({
+            blockNumber: parseInt(a.blockId, 10),
+            blockHash: a.blockHash,
+        }));
+        const rollbackBlock = await findRollbackBlock(
+            agreementFactoryContract.provider,
+            cachedBlocks,
+            Math.max(...cachedBlocks.map(b => b.blockNumber)) -
+                DEFAULT_REORG_CHECK_DEPTH +
+                1,
+        );
+
+        if (rollbackBlock !== undefined) {
+            logger.warn(
+                `\t\t\tReorganisation detected, rolling back agreements data cache to block ${rollbackBlock}\n`,
+            );
+            cachedAgreementsData = cachedAgreementsData.filter(
+                a => parseInt(a.blockId, 10) <= rollbackBlock,
+            );
+        }
+    }
+
+    // Agreements are skipped one by one, so that a run interrupted in the middle of a block fetches the rest of it.
+    const cachedAddresses = new Set(cachedAgreementsData.map(a => a.address));
+
+    // The cache is rewritten as rows may have been rolled back. Its rows end with \n like the rows appended below.
+    fs.mkdirSync(path.dirname(agreementsDataCache), { recursive: true });
+    fs.writeFileSync(
+        agreementsDataCache,
+        `${Papa.unparse(
+            {
+                fields: AGREEMENTS_DATA_CACHE_COLUMNS,
+                data: cachedAgreementsData.map(a =>
+                    AGREEMENTS_DATA_CACHE_COLUMNS.map(column => a[column]),
+                ),
+            },
+            { newline: '\n' },
+        )}\n`,
+    );
+    const stream = fs.createWriteStream(agreementsDataCache, { flags: 'a' });
+
+    // Iterate through all signed agreements to get metadata.
+    for (const agreementSignedEvent of agreementSignedEvents.sort(
+        (a, b) => a.blockNumber - b.blockNumber,
+    )) {
+        const { agreementAddress } =
+            agreementSignedEvent.args as unknown as AgreementSignedArgs;
+        if (cachedAddresses.has(agreementAddress)) {
+            continue;
+        }
+
+        const agreementData = await agreementFactoryContract.agreementData(
+            agreementAddress,
+        );
+
+        stream.write(
+            `${agreementSignedEvent.blockNumber},${
+                agreementSignedEvent.blockHash
+            },${agreementAddress},${agreementData.buyer},${
+                agreementData.seller
+            },${agreementData.amount.toString()},${agreementData.metadata},${
+                agreementData.valid
+            }\n`,
+        );
+
+        cachedAddresses.add(agreementAddress);
+
+        logger.debug(
+            `\t\t\tAgreement data added to cache for agreement: ${agreementAddress}\n`,
+        );
+    }
+
+    await new Promise(resolve => stream.end(resolve));
+
+    logger.info(`\tCache updated!\n`);
+};
+
+const readAgreementsDataCache = async (
+    agreementsDataCache: string,
+): Promise<AgreementDataCached[]> => {
+    const cachedAgreementsData: AgreementDataCached[] = [];
+
+    if (fs.existsSync(agreementsDataCache)) {
+        await readCSV(
+            agreementsDataCache,
+            function (result: Papa.ParseStepResult<AgreementDataCached>) {
+                // Skip the empty line ending the file.
+                if (!result.data.address) {
+                    return;
+                }
+                cachedAgreementsData.push(result.data);
+            },
+        );
+    }
+
+    return cachedAgreementsData;
+};
+
+const toEwcEvent = <Args>(event: ethers.Event): EwcEvent<Args> => ({
+    args: event.args as unknown as Args,
+    blockNumber: event.blockNumber,
+    blockHash: event.blockHash,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+});
+
+// Read all events from the local event store, and the agreements data from its cache. Nothing is fetched from the
+// network, run syncEwcData first to bring the local caches up to date.
+export const loadEwcEvents = async (
+    deployment: Deployment,
+): Promise<EwcEvents> => {
+    logger.info(
+        `Starting process to load Energy Web Chain data from the local event store...\n`,
+    );
+
+    const {
+        registryExtendedContract,
+        batchFactoryContract,
+        agreementFactoryContract,
+    } = getEwfContractsInstances(deployment);
+    const storeDir = eventStoreDir(deployment);
+    const load = <Args>(contract: ethers.Contract, eventName: string) =>
+        loadEvents(storeDir, contract, eventName).map(e => toEwcEvent<Args>(e));
+
+    logger.info(`\tAGREEMENTS\n`);
+
+    const agreementsDeployed = load<AgreementsDeployedArgs>(
+        agreementFactoryContract,
+        'AgreementsDeployed',
+    );
+    let nbrAgreementsDeployed = 0;
+    agreementsDeployed.forEach(e => {
+        nbrAgreementsDeployed += e.args.agreements.length;
+    });
+
+    logger.info(`\t\tFound ${nbrAgreementsDeployed} deployed agreements\n`);
+
+    const agreementSigned = load<AgreementSignedArgs>(
+        agreementFactoryContract,
+        'AgreementSigned',
+    );
+
+    logger.info(`\t\tFound ${agreementSigned.length} signed agreements\n`);
+
+    const agreementsData: { [key: string]: AgreementData } = {};
+    for (const cachedAgreementData of await readAgreementsDataCache(
+        agreementsDataCacheFile(deployment),
+    )) {
+        agreementsData[cachedAgreementData.address] = {
+            buyer: cachedAgreementData.buyer,
+            seller: cachedAgreementData.seller,
+            amount: BigNumber.from(cachedAgreementData.amount),
+            metadata: cachedAgreementData.metadata,
+            // Columns are read back as strings from the CSV cache.
+            valid: String(cachedAgreementData.valid) === 'true',
+        };
+    }
+
+    // Agreement data is missing when the cache has not been synced yet.
+    for (const { args } of agreementSigned) {
+        if (!agreementsData[args.agreementAddress]) {
+            logger.warn(
+                `\t\tAgreement data missing from cache for agreement: ${args.agreementAddress}\n`,
+            );
+        }
+    }
+
+    const agreementFilled = load<AgreementFilledArgs>(
+        agreementFactoryContract,
+        'AgreementFilled',
+    );
+
+    logger.info(`\t\tFound ${agreementFilled.length} filled agreements\n`);
+
+    const agreementClaimed = load<AgreementClaimedArgs>(
+        agreementFactoryContract,
+        'AgreementClaimed',
+    );
+
+    logger.info(`\t\tFound ${agreementClaimed.length} claimed agreements\n`);
+
+    const agreementInvalidated = load<AgreementInvalidatedArgs>(
+        agreementFactoryContract,
+        'AgreementInvalidated',
+    );
+
+    logger.info(
+        `\t\tFound ${agreementInvalidated.length} invalidated agreements\n`,
+    );
+
+    logger.info(`\tCERTIFICATES\n`);
+
+    const transferSingle = load<MintedArgs>(
+        registryExtendedContract,
+        'TransferSingle',
+    );
+
+    logger.info(`\t\tFound ${transferSingle.length} single transfers\n`);
+
+    const transferBatch = load<TransferBatchArgs>(
+        registryExtendedContract,
+        'TransferBatch',
+    );
+
+    logger.info(`\t\tFound ${transferBatch.length} batch transfers\n`);
+
+    const transferBatchMultiple = load<TransferBatchMultipleArgs>(
+        registryExtendedContract,
+        'TransferBatchMultiple',
+    );
+
+    logger.info(
+        `\t\tFound ${transferBatchMultiple.length} batch multiple transfers\n`,
+    );
+
+    const redemptionStatementSet = load<RedemptionSetArgs>(
+        batchFactoryContract,
+        'RedemptionStatementSet',
+    );
+
+    logger.info(
+        `\t\tFound ${redemptionStatementSet.length} redemption statement set on batches\n`,
+    );
+
+    const certificateBatchMinted = load<CertificateBatchMintedArgs>(
+        batchFactoryContract,
+        'CertificateBatchMinted',
+    );
+
+    logger.info(
+        `\t\tFound ${certificateBatchMinted.length} batch linked to certificates IDs\n`,
+    );
+
+    const claimSingle = load<ClaimSingleArgs>(
+        registryExtendedContract,
+        'ClaimSingle',
+    );
+
+    logger.info(`\t\tFound ${claimSingle.length} single claims\n`);
+
+    const claimBatch = load<ClaimBatchArgs>(
+        registryExtendedContract,
+        'ClaimBatch',
+    );
+
+    logger.info(`\t\tFound ${claimBatch.length} batch claims\n`);
+
+    const claimBatchMultiple = load<ClaimBatchMultipleArgs>(
+        registryExtendedContract,
+        'ClaimBatchMultiple',
+    );
+
+    logger.info(
+        `\t\tFound ${claimBatchMultiple.length} batch multiple claims\n\n`,
+    );
+
+    const blockTimestamps = readBlockTimestamps(
+        blockTimestampsCacheFile(deployment),
+    );
+    const blocksWithoutTimestamp = new Set(
+        [
+            agreementsDeployed,
+            agreementSigned,
+            agreementFilled,
+            agreementClaimed,
+            agreementInvalidated,
+            transferSingle,
+            transferBatch,
+            transferBatchMultiple,
+            redemptionStatementSet,
+            certificateBatchMinted,
+            claimSingle,
+            claimBatch,
+            claimBatchMultiple,
+        ]
+            .flat()
+            .map(e => e.blockHash)
+            .filter(blockHash => blockTimestamps[blockHash] === undefined),
+    );
+    if (blocksWithoutTimestamp.size) {
+        logger.warn(
+            `\t${blocksWithoutTimestamp.size} blocks have no cached timestamp, run a sync first\n\n`,
+        );
+    }
+
+    return {
+        agreementsDeployed,
+        agreementSigned,
+        agreementFilled,
+        agreementClaimed,
+        agreementInvalidated,
+        transferSingle,
+        transferBatch,
+        transferBatchMultiple,
+        redemptionStatementSet,
+        certificateBatchMinted,
+        claimSingle,
+        claimBatch,
+        claimBatchMultiple,
+        agreementsData,
+        blockTimestamps,
+        // Balances depend on every registry event, they are only known up to the block all of them were synced to.
+        lastSyncedBlock: Math.min(
+            ...EWC_EVENTS.registryExtended.map(eventName =>
+                loadLastSyncedBlock(
+                    storeDir,
+                    registryExtendedContract,
+                    eventName,
+                ),
+            ),
+        ),
+    };
+};
+
+const readCSV = async (
+    filePath: string,
+    stepCallback: Function,
+): Promise<void> => {
+    const csvFile = fs.readFileSync(filePath);
+    const csvData = csvFile.toString();
+    return new Promise(resolve => {
+        Papa.parse(csvData, {
+            header: true,
+            step: function (result: Papa.ParseStepResult<AgreementDataCached>) {
+                stepCallback(result);
+            },
+            complete: results => {
+                resolve();
+            },
+        });
+    });
+};
@@ -0,0 +1,13 @@
+import fs from 'fs';
+import path from 'path';
+
+/*
+ * Local cache files
+ */
+
+// Write to a temporary file first and rename it, so that an interrupted run never leaves a truncated or corrupted file.
+export const writeFileAtomic = (filePath: string, data: string | Buffer) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(`${filePath}.tmp`, data);
+    fs.renameSync(`${filePath}.tmp`, filePath);
+};
@@ -1,595 +1,104 @@
-import { BigNumber, constants, ethers } from 'ethers';
-import Papa from 'papaparse';
-import fs from 'fs';
-
-import registryExtendedConfig from './registry-extended';
-import batchFactoryConfig from './batch-factory';
-import agreementFactoryConfig from './agreement-factory';
-import path from 'path';
-import {
-    AgreementMetadataCoder,
-    ClaimDataCoder,
-} from '@zero-labs/tokenization-contracts';
-
-/*
- * Energy Web Chain intersected data
- */
-
-type BatchRegistry = {
-    [key: string]: Batch;
-};
-
-type Batch = {
-    // Unique ID associated to a batch.
-    batchId: string;
-    // Redemption statement set for the batch.
-    redemptionStatement: string;
-    // URL pointing to the redemption statement PDF.
-    storagePointer: string;
-    // Certificates IDs related to the batch.
-    certificateIds: string[];
-    // Transaction hash at which the corresponding event was emitted.
-    transactionHash: string;
-};
-
-type Certificate = {
-    // Token ID generated on chain.
-    tokenId: string;
-    // Batch ID to which this certificate is related.
-    batchId: string;
-    // Amount of RECs associated to this certificate.
-    value: string;
-    operator: string;
-    from: string;
-    to: string;
-    // Transaction hash at which the corresponding event was emitted.
-    transactionHash: string;
-};
-
-type Claim = {
-    // Certificate ID that was subject of a claim.
-    tokenId: string;
-    // EW address.
-    claimIssuer: string;
-    // SP address that claimed the RECs.
-    claimSubject: string;
-    // ?
-    topic: string;
-    // Amount of RECs claimed.
-    value: string;
-    // Metadata associated to the claim.
-    claimData: string;
-    // Decoded claim data.
-    claimDataDecoded: string;
-    // Transaction hash at which the corresponding event was emitted.
-    transactionHash: string;
-};
-
-type Agreement = {
-    agreementAddress: string;
-    certificateIds: string[];
-    signedAmount: string;
-    filledAmount: string;
-    buyer: string;
-    seller: string;
-    metadata: string;
-    metadataDecoded: string;
-};
-
 /*
- * Energy Web Chain events args
+ * Library entry point, nothing is fetched on import
  */
 
-type CertificateBatchMintedArgs = {
-    batchId: string;
-    certificateIds: BigNumber[];
-};
-
-type RedemptionSetArgs = {
-    batchId: string;
-    redemptionStatement: string;
-    storagePointer: string;
-};
-
-type MintedArgs = {
-    id: BigNumber;
-    value: BigNumber;
-    operator: string;
-    from: string;
-    to: string;
-};
-
-type ClaimSingleArgs = {
-    _claimIssuer: string;
-    _claimSubject: string;
-    _topic: BigNumber;
-    _id: BigNumber;
-    _value: BigNumber;
-    _claimData: string;
-};
-
-type AgreementFilledArgs = {
-    agreementAddress: string;
-    certificateId: BigNumber;
-    amount: BigNumber;
-};
-
-type AgreementSignedArgs = {
-    agreementAddress: string;
-    buyer: string;
-    seller: string;
-    amount: BigNumber;
-};
-type AgreementsDeployedArgs = {
-    agreements: string[];
-};
-
-type AgreementData = {
-    buyer: string;
-    seller: string;
-    amount: BigNumber;
-    metadata: string;
-    valid: boolean;
-};
-
-type AgreementDataCached = AgreementData & {
-    blockId: string;
-    address: string;
-    amount: string;
-};
-
-const AGREEMENTS_DATA_CACHE = path.resolve(
-    __dirname,
-    './cache/agreements-data-cache.csv',
-);
-
-export const getEwfContractsInstances = () => {
-    const registryExtendedAddress =
-        '0x5651a7A38753A9692B7740CCeCA3824a4d33aEFb';
-    const batchFactoryAddress = '0x2248a8e53c8cf533aeef2369fff9dc8c036c8900';
-    const agreementFactoryAddress =
-        '0x5fd92584ceF267a7b702c722C660bF9C4ed2bfA7';
-    const ewfProvider = ethers.getDefaultProvider('https://rpc.energyweb.org');
-
-    return {
-        registryExtendedContract: new ethers.Contract(
-            registryExtendedAddress,
-            registryExtendedConfig.abi,
-            ewfProvider,
-        ),
-        batchFactoryContract: new ethers.Contract(
-            batchFactoryAddress,
-            batchFactoryConfig.abi,
-            ewfProvider,
-        ),
-        agreementFactoryContract: new ethers.Contract(
-            agreementFactoryAddress,
-            agreementFactoryConfig.abi,
-            ewfProvider,
-        ),
-    };
-};
-
-const parseEwcData = async () => {
-    console.info(
-        `Starting process to fetch and parse data from Energy Web Chain...\n`,
-    );
-
-    const {
-        registryExtendedContract,
-        batchFactoryContract,
-        agreementFactoryContract,
-    } = getEwfContractsInstances();
-
-    console.info(`\tAGREEMENTS\n`);
-
-    const agreementDeployedEvents = await agreementFactoryContract.queryFilter(
-        agreementFactoryContract.filters.AgreementsDeployed(),
-    );
-    let nbrAgreementsDeployed = 0;
-    agreementDeployedEvents.forEach(e => {
-        const { agreements } = e.args as unknown as AgreementsDeployedArgs;
-        nbrAgreementsDeployed += agreements.length;
-    });
-
-    console.info(`\t\tFound ${nbrAgreementsDeployed} deployed agreements\n`);
-
-    const agreementSignedEvents = await agreementFactoryContract.queryFilter(
-        agreementFactoryContract.filters.AgreementSigned(),
-    );
-
-    console.info(
-        `\t\tFound ${agreementSignedEvents.length} signed agreements\n`,
-    );
-
-    // Setup and maintain cache.
-    console.info(`\t\tUpdating agreements data cache\n`);
-
-    const agreementsData: { [key: string]: AgreementData } = {};
-    let latestBlockId = 0;
-    const existingCache = fs.existsSync(AGREEMENTS_DATA_CACHE);
-
-    if (existingCache) {
-        const file = fs.createReadStream(AGREEMENTS_DATA_CACHE);
-
-        await readCSV(
-            AGREEMENTS_DATA_CACHE,
-            function (result: Papa.ParseStepResult<AgreementDataCached>) {
-                if (!result.data.valid) {
-                    return;
-                }
-                agreementsData[result.data.address] = {
-                    buyer: result.data.buyer,
-                    seller: result.data.seller,
-                    amount: BigNumber.from(result.data.amount),
-                    metadata: result.data.metadata,
-                    valid: result.data.valid,
-                };
-
-                if (parseInt(result.data.blockId, 10) > latestBlockId) {
-                    latestBlockId = parseInt(result.data.blockId, 10);
-                }
-            },
-        );
-    }
-
-    const stream = fs.createWriteStream(AGREEMENTS_DATA_CACHE, { flags: 'a' });
-
-    if (!existingCache) {
-        stream.write(`blockId,address,buyer,seller,amount,metadata,valid\n`);
-    }
-
-    // Iterate through all signed agreements to get metadata.
-    for (const agreementSignedEvent of agreementSignedEvents.sort(
-        (a, b) => a.blockNumber - b.blockNumber,
-    )) {
-        if (agreementSignedEvent.blockNumber <= latestBlockId) {
-            continue;
-        }
-
-        const { agreementAddress } =
-            agreementSignedEvent.args as unknown as AgreementSignedArgs;
-
-        const agreementData = await agreementFactoryContract.agreementData(
-            agreementAddress,
-        );
-
-        agreementsData[agreementAddress] = {
-            buyer: agreementData.buyer,
-            seller: agreementData.seller,
-            amount: agreementData.amount,
-            metadata: agreementData.metadata,
-            valid: agreementData.valid,
-        };
-
-        stream.write(
-            `${agreementSignedEvent.blockNumber},${agreementAddress},${
-                agreementData.buyer
-            },${agreementData.seller},${agreementData.amount.toString()},${
-                agreementData.metadata
-            },${agreementData.valid}\n`,
-        );
-
-        console.info(
-            `\t\t\tAgreement data added to cache for agreement: ${agreementAddress}\n`,
-        );
-    }
-
-    stream.end();
-
-    console.info(`\t\tCache updated!\n`);
-
-    const agreementFilledEvents = await agreementFactoryContract.queryFilter(
-        agreementFactoryContract.filters.AgreementFilled(),
-    );
-
-    console.info(
-        `\t\tFound ${agreementFilledEvents.length} filled agreements\n`,
-    );
-
-    const agreementClaimedEvents = await agreementFactoryContract.queryFilter(
-        agreementFactoryContract.filters.AgreementClaimed(),
-    );
-
-    console.info(
-        `\t\tFound ${agreementClaimedEvents.length} claimed agreements\n`,
-    );
-
-    console.info(`\tCERTIFICATES\n`);
-
-    const mintEvents = await registryExtendedContract.queryFilter(
-        registryExtendedContract.filters.TransferSingle(
-            null,
-            constants.AddressZero,
-        ),
-    );
-
-    console.info(`\t\tFound ${mintEvents.length} certificates minted\n`);
-
-    const redemptionSetEvents = await batchFactoryContract.queryFilter(
-        batchFactoryContract.filters.RedemptionStatementSet(),
-    );
-
-    console.info(
-        `\t\tFound ${redemptionSetEvents.length} redemption statement set on batches\n`,
-    );
-
-    const certificateBatchMintedEvents = await batchFactoryContract.queryFilter(
-        batchFactoryContract.filters.CertificateBatchMinted(),
-    );
-
-    console.info(
-        `\t\tFound ${certificateBatchMintedEvents.length} batch linked to certificates IDs\n`,
-    );
-
-    const claimSingleEvents = await registryExtendedContract.queryFilter(
-        registryExtendedContract.filters.ClaimSingle(),
-    );
-
-    console.info(`\t\tFound ${claimSingleEvents.length} claims\n\n`);
-
-    const batches: Batch[] = [];
-    const certificates: Certificate[] = [];
-    const claims: Claim[] = [];
-    const agreements: Agreement[] = [];
-    const certificatesInAgreement: { [key: string]: boolean } = {};
-
-    // Iterate through all signed agreements
-    for (const agreementSignedEvent of agreementSignedEvents.sort(
-        (a, b) => a.blockNumber - b.blockNumber,
-    )) {
-        const {
-            agreementAddress: agreementSignedAddress,
-            buyer,
-            seller,
-            amount: agreementSignedAmount,
-        } = agreementSignedEvent.args as unknown as AgreementSignedArgs;
-
-        const { metadata, valid } = agreementsData[agreementSignedAddress];
-
-        if (!valid) {
-            continue;
-        }
-        const certificateIds: string[] = [];
-        let filledAmount: BigNumber = BigNumber.from(0);
-        for (const agreementFilledEvent of agreementFilledEvents) {
-            const {
-                agreementAddress: agreementFilledAddress,
-                certificateId,
-                amount: agreementFilledAmount,
-            } = agreementFilledEvent.args as unknown as AgreementFilledArgs;
-
-            if (agreementSignedAddress === agreementFilledAddress) {
-                certificatesInAgreement[certificateId.toString()] = true;
-                certificateIds.push(certificateId.toString());
-                filledAmount = filledAmount.add(agreementFilledAmount);
-            }
-        }
-        agreements.push({
-            agreementAddress: agreementSignedAddress,
-            certificateIds,
-            signedAmount: agreementSignedAmount.toString(),
-            filledAmount: filledAmount.toString(),
-            buyer,
-            seller,
-            metadata,
-            metadataDecoded: JSON.stringify(
-                AgreementMetadataCoder.decode(metadata),
-            ),
-        });
-    }
-
-    // Iterate through all redemption statement on-chain. Sorting by block number to tackle oldest to most recent.
-    for (const redemptionSetEvent of redemptionSetEvents.sort(
-        (a, b) => a.blockNumber - b.blockNumber,
-    )) {
-        const {
-            batchId: redemptionSetEventBatchId,
-            redemptionStatement,
-            storagePointer,
-        } = redemptionSetEvent.args as unknown as RedemptionSetArgs;
-        const batchCertificateIds: string[] = [];
-        // Loop through CertificateBatchMinted events, filtering when it concerns the current batch we are iterating over.
-        for (const certificateBatchMintedEvent of certificateBatchMintedEvents) {
-            const {
-                batchId: certificateBatchMintedEventBatchId,
-                certificateIds,
-            } =
-                certificateBatchMintedEvent.args as unknown as CertificateBatchMintedArgs;
-            // If this is the batch ID we are looking for, continue to construct data.
-            if (
-                redemptionSetEventBatchId === certificateBatchMintedEventBatchId
-            ) {
-                // Iterate over all certificates IDs that are related to the current batch we are iterating over.
-                for (const certificateId of certificateIds) {
-                    // If no agreement contains certificate then it does not concern us.
-                    if (!certificatesInAgreement[certificateId.toString()]) {
-                        continue;
-                    }
-                    // Looking for minting events concerning the certificate ID we are iterating over.
-                    for (const mintEvent of mintEvents) {
-                        const {
-                            id: mintEventCertificateId,
-                            value: mintedValue,
-                            to,
-                            operator,
-                            from,
-                        } = mintEvent.args as unknown as MintedArgs;
-
-                        if (mintEventCertificateId.eq(certificateId)) {
-                            // Looking for claim events concerning the certificate ID we are iterating over.
-                            for (const claimSingleEvent of claimSingleEvents) {
-                                const {
-                                    _id: id,
-                                    _claimSubject: claimSubject,
-                                    _value: value,
-                                    _claimIssuer: claimIssuer,
-                                    _claimData: claimData,
-                                    _topic: topic,
-                                } = claimSingleEvent.args as unknown as ClaimSingleArgs;
-                                if (id.eq(certificateId)) {
-                                    let claimDataDecoded =
-                                        ClaimDataCoder.decode(claimData);
-
-                                    claims.push({
-                                        tokenId: id.toString(),
-                                        claimIssuer,
-                                        claimSubject,
-                                        topic: topic.toString(),
-                                        value: value.toString(),
-                                        claimData: claimData.toString(),
-                                        claimDataDecoded:
-                                            JSON.stringify(claimDataDecoded),
-                                        transactionHash:
-                                            claimSingleEvent.transactionHash,
-                                    });
-                                }
-                            }
-                            batchCertificateIds.push(
-                                certificates.length.toString(),
-                            );
-                            certificates.push({
-                                tokenId: certificateId.toString(),
-                                batchId: certificateBatchMintedEventBatchId,
-                                value: mintedValue.toString(),
-                                operator,
-                                from,
-                                to,
-                                transactionHash: mintEvent.transactionHash,
-                            });
-                        }
-                    }
-                }
-            }
-        }
-
-        batches.push({
-            batchId: redemptionSetEventBatchId,
-            storagePointer,
-            certificateIds: batchCertificateIds,
-            redemptionStatement,
-            transactionHash: redemptionSetEvent.transactionHash,
-        });
-    }
-
-    console.info(`Finished fetching and parsing data from Energy Web Chain\n`);
-
-    let agreementsSignedValue = BigNumber.from(0);
-    agreements.forEach(
-        a =>
-            (agreementsSignedValue = agreementsSignedValue.add(
-                BigNumber.from(a.signedAmount),
-            )),
-    );
-    console.info(
-        `\tAGREEMENT SIGNED VALUE: ${agreementsSignedValue.toString()}\n`,
-    );
-
-    let agreementsFilledValue = BigNumber.from(0);
-    agreements.forEach(
-        a =>
-            (agreementsFilledValue = agreementsFilledValue.add(
-                BigNumber.from(a.filledAmount),
-            )),
-    );
-    console.info(
-        `\tAGREEMENT FILLED VALUE: ${agreementsFilledValue.toString()}\n`,
-    );
-
-    let mintedValue = BigNumber.from(0);
-    certificates.forEach(
-        c => (mintedValue = mintedValue.add(BigNumber.from(c.value))),
-    );
-    console.info(`\tMINTED VALUE: ${mintedValue.toString()}\n`);
-
-    let claimedValue = BigNumber.from(0);
-    claims.forEach(
-        c => (claimedValue = claimedValue.add(BigNumber.from(c.value))),
-    );
-    console.info(`\tCLAIMED VALUE: ${claimedValue.toString()}\n\n`);
-
-    console.info(
-        `Generating CSV files for agreements, batch, certificates and claims...\n`,
-    );
-
-    const agreementsCSV = Papa.unparse(agreements);
-    fs.writeFile(
-        path.resolve(__dirname, 'agreements.csv'),
-        agreementsCSV,
-        function (err) {
-            if (err) {
-                return console.error(
-                    `\tError while generating agreements CSV: ${err.message}\n`,
-                );
-            }
-            console.info('\tagreements.csv generated!\n');
-        },
-    );
-
-    const batchesCSV = Papa.unparse(batches);
-    fs.writeFile(
-        path.resolve(__dirname, 'batches.csv'),
-        batchesCSV,
-        function (err) {
-            if (err) {
-                return console.error(
-                    `\tError while generating batches CSV: ${err.message}\n`,
-                );
-            }
-            console.info('\tbatches.csv generated!\n');
-        },
-    );
-
-    const certificatesCSV = Papa.unparse(certificates);
-    fs.writeFile(
-        path.resolve(__dirname, 'certificates.csv'),
-        certificatesCSV,
-        function (err) {
-            if (err) {
-                return console.error(
-                    `\tError while generating certificates CSV: ${err.message}\n`,
-                );
-            }
-            console.info('\tcertificates.csv generated!\n');
-        },
-    );
-
-    const claimsCSV = Papa.unparse(claims);
-    fs.writeFile(
-        path.resolve(__dirname, 'claims.csv'),
-        claimsCSV,
-        function (err) {
-            if (err) {
-                return console.error(
-                    `\tError while generating claims CSV: ${err.message}\n`,
-                );
-            }
-            console.info('\tclaims.csv generated!\n');
-        },
-    );
-};
-
-const readCSV = async (
-    filePath: string,
-    stepCallback: Function,
-): Promise<void> => {
-    const csvFile = fs.readFileSync(filePath);
-    const csvData = csvFile.toString();
-    return new Promise(resolve => {
-        Papa.parse(csvData, {
-            header: true,
-            step: function (result: Papa.ParseStepResult<AgreementDataCached>) {
-                stepCallback(result);
-            },
-            complete: results => {
-                resolve();
-            },
-        });
-    });
-};
-
-parseEwcData().catch(err =>
-    console.error(
-        `Error while trying to parse Energy Web Chain data: ${err.message}`,
-    ),
-);
+export * from './types';
+export {
+    DEFAULT_CONFIRMATIONS,
+    SyncOptions,
+    getEwfContractsInstances,
+    loadEwcEvents,
+    statementsCacheDir,
+    syncEwcData,
+} from './fetch';
+export {
+    blockTime,
+    readBlockTimestamps,
+    syncBlockTimestamps,
+} from './block-timestamps';
+export {
+    EventFilter,
+    filterEwcEvents,
+    filterReconciliation,
+    isEventFilterEmpty,
+} from './event-filter';
+export { reconcile } from './reconcile';
+export { findAnomalies } from './anomalies';
+export {
+    AGREEMENT_LIFECYCLE_STATES,
+    buildAgreementLifecycles,
+    summarizeAgreementLifecycles,
+} from './lifecycle';
+export { DecodeStatus, DecodedClaimData, decodeClaimData } from './claim-data';
+export {
+    DecodedAgreementMetadata,
+    decodeAgreementMetadata,
+} from './agreement-metadata';
+export {
+    buildStorageProviderReports,
+    claimMinerId,
+    parseMinerId,
+    uniqueClaims,
+} from './storage-providers';
+export { Totals, computeTotals, uniqueMints } from './totals';
+export { ParseOptions, parseEwcData } from './pipeline';
+export {
+    CHUNKING_PROFILES,
+    ChunkingProfile,
+    ParsedCid,
+    computeCid,
+    matchingProfile,
+    parseCid,
+} from './cid';
+export {
+    DEFAULT_IPFS_GATEWAY,
+    DEFAULT_STATEMENT_VERIFICATION_OPTIONS,
+    StatementVerificationOptions,
+    verifyStatements,
+} from './statements';
+export {
+    CLAIM_TIME_BASES,
+    ClaimTimeBasis,
+    DEFAULT_TIME_SERIES_OPTIONS,
+    TIME_SERIES_ENERGY_COLUMNS,
+    TIME_SERIES_GRANULARITIES,
+    TimeSeriesGranularity,
+    TimeSeriesOptions,
+    buildTimeSeries,
+} from './time-series';
+export {
+    ENERGY_UNITS,
+    EnergyUnit,
+    autoEnergyUnit,
+    energyColumnName,
+    formatEnergy,
+    toEnergyUnit,
+    withEnergyColumns,
+} from './units';
+export { checkBalances } from './balances';
+export {
+    OUTPUT_FORMATS,
+    OutputFormat,
+    exportEwcData,
+    printEwcSummary,
+    writeCSV,
+    writeJSON,
+    writeNDJSON,
+    writeOutput,
+} from './writers';
+export { writeSQLite } from './sqlite';
+export {
+    DEFAULT_CONFIG_FILE,
+    DEFAULT_DEPLOYMENT,
+    Deployment,
+    DeploymentContracts,
+    checkChainId,
+    createProvider,
+    loadDeployment,
+} from './config';
+export {
+    RecordingProvider,
+    ReplayProvider,
+    RpcFixtureOptions,
+} from './rpc-fixture';
+export { LOG_LEVELS, LogLevel, setLogLevel } from './logger';
@@ -0,0 +1,199 @@
+import { BigNumber } from 'ethers';
+
+import { blockTime } from './block-timestamps';
+import {
+    AgreementLifecycle,
+    AgreementLifecycleState,
+    AgreementLifecycleSummary,
+    EwcEvent,
+    EwcEvents,
+} from './types';
+
+/*
+ * Lifecycle of agreements, from their deployment to their claim or invalidation
+ */
+
+export const AGREEMENT_LIFECYCLE_STATES: AgreementLifecycleState[] = [
+    'deployed',
+    'signed',
+    'partially-filled',
+    'fully-filled',
+    'claimed',
+    'invalidated',
+];
+
+// Event an agreement reached a state at, undefined while it has not reached it.
+type Transitions = {
+    [state in AgreementLifecycleState]?: EwcEvent<unknown>;
+};
+
+type AgreementProgress = {
+    transitions: Transitions;
+    // Whether the agreement is known to be invalid, with or without an AgreementInvalidated event.
+    invalid: boolean;
+    signedAmount?: BigNumber;
+    filledAmount: BigNumber;
+};
+
+// Replay the agreement events in chain order and record the first event each agreement reached each state at. A claim
+// made before the agreement is fully filled still reaches the claimed state, with a filled amount under the signed one.
+// Agreements are listed in the order they were first seen.
+export const buildAgreementLifecycles = (
+    events: EwcEvents,
+): AgreementLifecycle[] => {
+    const progresses: { [agreementAddress: string]: AgreementProgress } = {};
+    const progressOf = (agreementAddress: string) => {
+        if (!progresses[agreementAddress]) {
+            progresses[agreementAddress] = {
+                transitions: {},
+                invalid: false,
+                filledAmount: BigNumber.from(0),
+            };
+        }
+        return progresses[agreementAddress];
+    };
+    const reach = (
+        { transitions }: AgreementProgress,
+        state: AgreementLifecycleState,
+        event: EwcEvent<unknown>,
+    ) => {
+        if (!transitions[state]) {
+            transitions[state] = event;
+        }
+    };
+
+    // Each event is applied to the agreements it concerns, once all events are sorted in chain order.
+    const steps: { event: EwcEvent<unknown>; apply: () => void }[] = [
+        ...events.agreementsDeployed.map(event => ({
+            event,
+            apply: () =>
+                event.args.agreements.forEach(agreementAddress =>
+                    reach(progressOf(agreementAddress), 'deployed', event),
+                ),
+        })),
+        ...events.agreementSigned.map(event => ({
+            event,
+            apply: () => {
+                const progress = progressOf(event.args.agreementAddress);
+                if (!progress.signedAmount) {
+                    progress.signedAmount = event.args.amount;
+                }
+                reach(progress, 'signed', event);
+            },
+        })),
+        ...events.agreementFilled.map(event => ({
+            event,
+            apply: () => {
+                const progress = progressOf(event.args.agreementAddress);
+                progress.filledAmount = progress.filledAmount.add(
+                    event.args.amount,
+                );
+                if (
+                    progress.signedAmount &&
+                    progress.filledAmount.gte(progress.signedAmount)
+                ) {
+                    reach(progress, 'fully-filled', event);
+                } else if (!progress.transitions['fully-filled']) {
+                    reach(progress, 'partially-filled', event);
+                }
+            },
+        })),
+        ...events.agreementClaimed.map(event => ({
+            event,
+            apply: () =>
+                reach(
+                    progressOf(event.args.agreementAddress),
+                    'claimed',
+                    event,
+                ),
+        })),
+        ...events.agreementInvalidated.map(event => ({
+            event,
+            apply: () => {
+                const progress = progressOf(event.args.agreementAddress);
+                progress.invalid = true;
+                reach(progress, 'invalidated', event);
+            },
+        })),
+    ].sort(
+        (a, b) =>
+            a.event.blockNumber - b.event.blockNumber ||
+            a.event.logIndex - b.event.logIndex,
+    );
+    steps.forEach(step => step.apply());
+
+    // Agreements invalidated without any AgreementInvalidated event are only known to be invalid from their data.
+    for (const [agreementAddress, { valid }] of Object.entries(
+        events.agreementsData,
+    )) {
+        if (!valid) {
+            progressOf(agreementAddress).invalid = true;
+        }
+    }
+
+    return Object.entries(progresses).map(
+        ([
+            agreementAddress,
+            { transitions, invalid, signedAmount, filledAmount },
+        ]) => {
+            const state: AgreementLifecycleState = invalid
+                ? 'invalidated'
+                : [...AGREEMENT_LIFECYCLE_STATES]
+                      .reverse()
+                      .find(s => transitions[s]) ?? 'deployed';
+            const blockOf = (s: AgreementLifecycleState) =>
+                transitions[s]?.blockNumber ?? null;
+            const stateEvent = transitions[state];
+
+            return {
+                agreementAddress,
+                state,
+                stateBlock: blockOf(state),
+                stateTimestamp: stateEvent
+                    ? blockTime(events.blockTimestamps, stateEvent.blockHash)
+                    : '',
+                deployedBlock: blockOf('deployed'),
+                signedBlock: blockOf('signed'),
+                partiallyFilledBlock: blockOf('partially-filled'),
+                fullyFilledBlock: blockOf('fully-filled'),
+                claimedBlock: blockOf('claimed'),
+                invalidatedBlock: blockOf('invalidated'),
+                signedAmount: (signedAmount ?? BigNumber.from(0)).toString(),
+                filledAmount: filledAmount.toString(),
+            };
+        },
+    );
+};
+
+// Count the agreements whose latest state is each state, and find the one that has been in it the longest. Agreements
+// whose state block is unknown are only picked as the oldest when no other agreement is in the same state.
+export const summarizeAgreementLifecycles = (
+    lifecycles: AgreementLifecycle[],
+): AgreementLifecycleSummary[] =>
+    AGREEMENT_LIFECYCLE_STATES.map(state => {
+        const inState = lifecycles.filter(l => l.state === state);
+        let signedAmount = BigNumber.from(0);
+        let filledAmount = BigNumber.from(0);
+        let oldest: AgreementLifecycle | undefined;
+        for (const lifecycle of inState) {
+            signedAmount = signedAmount.add(lifecycle.signedAmount);
+            filledAmount = filledAmount.add(lifecycle.filledAmount);
+            if (
+                !oldest ||
+                (lifecycle.stateBlock !== null &&
+                    (oldest.stateBlock === null ||
+                        lifecycle.stateBlock < oldest.stateBlock))
+            ) {
+                oldest = lifecycle;
+            }
+        }
+
+        return {
+            state,
+            agreementCount: inState.length,
+            signedAmount: signedAmount.toString(),
+            filledAmount: filledAmount.toString(),
+            oldestAgreementAddress: oldest?.agreementAddress ?? '',
+            oldestStateBlock: oldest?.stateBlock ?? null,
+        };
+    });
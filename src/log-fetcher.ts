@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+
+import { logger } from './logger';
+
+/*
+ * Block-range chunked log fetching
+ */
+
+export type LogFetcherOptions = {
+    // First block to fetch logs from.
+    fromBlock: number;
+    // Last block to fetch logs to. Defaults to the latest block of the chain.
+    toBlock?: number;
+    // Number of blocks requested in a single eth_getLogs call.
+    blockWindow: number;
+    // Number of times a request failing with a transient error is retried.
+    maxRetries: number;
+    // Delay before the first retry, doubled on each following one.
+    retryDelayMs: number;
+};
+
+export const DEFAULT_LOG_FETCHER_OPTIONS: LogFetcherOptions = {
+    fromBlock: 0,
+    blockWindow: 500_000,
+    maxRetries: 5,
+    retryDelayMs: 1_000,
+};
+
+// Messages returned by RPC nodes when a log range or its result set is too large.
+const RANGE_ERROR_PATTERNS = [
+    /block range/i,
+    /range (is )?too (large|wide)/i,
+    /more than \d+ (results|blocks)/i,
+    /limit exceeded/i,
+    /response size/i,
+    /too many (results|logs|blocks)/i,
+    /query timeout/i,
+];
+
+// Errors worth retrying as they are not caused by the request itself.
+const TRANSIENT_ERROR_CODES = ['TIMEOUT', 'SERVER_ERROR', 'NETWORK_ERROR'];
+const TRANSIENT_ERROR_PATTERNS = [
+    /rate limit/i,
+    /too many requests/i,
+    /\b(429|502|503|504)\b/,
+    /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN/,
+];
+
+// Fields RPC errors may carry, depending on the provider and the node.
+type RpcError = {
+    code?: unknown;
+    message?: unknown;
+    body?: unknown;
+    error?: { message?: unknown };
+};
+
+const toRpcError = (err: unknown): RpcError =>
+    typeof err === 'object' && err !== null ? err : {};
+
+const errorMessage = (err: unknown): string => {
+    const { message, body, error } = toRpcError(err);
+
+    return [message, body, error?.message]
+        .filter(m => typeof m === 'string')
+        .join(' ');
+};
+
+export const isRangeError = (err: unknown): boolean =>
+    RANGE_ERROR_PATTERNS.some(p => p.test(errorMessage(err)));
+
+export const isTransientError = (err: unknown): boolean => {
+    const { code } = toRpcError(err);
+
+    return (
+        (typeof code === 'string' && TRANSIENT_ERROR_CODES.includes(code)) ||
+        TRANSIENT_ERROR_PATTERNS.some(p => p.test(errorMessage(err)))
+    );
+};
+
+const sleep = (ms: number) =>
+    new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Call the request again on transient errors, waiting exponentially longer between attempts.
+const withRetry = async <T>(
+    request: () => Promise<T>,
+    options: LogFetcherOptions,
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (err) {
+            if (
+                isRangeError(err) ||
+                !isTransientError(err) ||
+                attempt >= options.maxRetries
+            ) {
+                throw err;
+            }
+            const delay = options.retryDelayMs * 2 ** attempt;
+            logger.warn(
+                `\t\t\tTransient RPC error, retrying in ${delay}ms: ${errorMessage(
+                    err,
+                )}\n`,
+            );
+            await sleep(delay);
+        }
+    }
+};
+
+// Fetch all events matching a filter, splitting the block range in windows. The window is halved each time the RPC
+// rejects a range as too large.
+export const fetchEvents = async (
+    contract: ethers.Contract,
+    filter: ethers.EventFilter,
+    options: LogFetcherOptions = DEFAULT_LOG_FETCHER_OPTIONS,
+): Promise<ethers.Event[]> => {
+    const toBlock =
+        options.toBlock ??
+        (await withRetry(() => contract.provider.getBlockNumber(), options));
+    const events: ethers.Event[] = [];
+    let blockWindow = options.blockWindow;
+    let fromBlock = options.fromBlock;
+
+    while (fromBlock <= toBlock) {
+        const windowEnd = Math.min(fromBlock + blockWindow - 1, toBlock);
+        try {
+            events.push(
+                ...(await withRetry(
+                    () => contract.queryFilter(filter, fromBlock, windowEnd),
+                    options,
+                )),
+            );
+            fromBlock = windowEnd + 1;
+        } catch (err) {
+            if (!isRangeError(err) || blockWindow === 1) {
+                throw err;
+            }
+            blockWindow = Math.ceil(blockWindow / 2);
+            logger.warn(
+                `\t\t\tBlock range rejected by RPC, reducing window to ${blockWindow} blocks\n`,
+            );
+        }
+    }
+
+    return events;
+};
@@ -0,0 +1,39 @@
+/*
+ * Leveled console logger
+ */
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let currentLogLevel: LogLevel = 'info';
+
+export const setLogLevel = (logLevel: LogLevel) => {
+    currentLogLevel = logLevel;
+};
+
+const isEnabled = (logLevel: LogLevel) =>
+    LOG_LEVELS.indexOf(logLevel) <= LOG_LEVELS.indexOf(currentLogLevel);
+
+export const logger = {
+    error: (...args: unknown[]) => {
+        if (isEnabled('error')) {
+            console.error(...args);
+        }
+    },
+    warn: (...args: unknown[]) => {
+        if (isEnabled('warn')) {
+            console.warn(...args);
+        }
+    },
+    info: (...args: unknown[]) => {
+        if (isEnabled('info')) {
+            console.info(...args);
+        }
+    },
+    debug: (...args: unknown[]) => {
+        if (isEnabled('debug')) {
+            console.debug(...args);
+        }
+    },
+};
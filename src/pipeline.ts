@@ -0,0 +1,88 @@
+import { Deployment, checkChainId } from './config';
+import { getEwfContractsInstances, loadEwcEvents } from './fetch';
+import { reconcile } from './reconcile';
+import {
+    EventFilter,
+    filterEwcEvents,
+    filterReconciliation,
+    isEventFilterEmpty,
+} from './event-filter';
+import { checkBalances } from './balances';
+import { logger } from './logger';
+import { BalanceMismatch, EwcData } from './types';
+
+/*
+ * Full parsing pipeline, from the local caches to the reconciled data
+ */
+
+export type ParseOptions = {
+    deployment: Deployment;
+    // Skip the steps reading contract state, so that no RPC call is made.
+    offline: boolean;
+    // Only keep the records and events within a block or date range.
+    filter?: EventFilter;
+};
+
+export const parseEwcData = async ({
+    deployment,
+    offline,
+    filter = {},
+}: ParseOptions): Promise<EwcData> => {
+    const filtered = !isEventFilterEmpty(filter);
+    const allEvents = await loadEwcEvents(deployment);
+    const events = filtered ? filterEwcEvents(allEvents, filter) : allEvents;
+    // Records in the range may depend on events before it, all of them are reconciled before filtering.
+    const reconciliation = filtered
+        ? filterReconciliation(reconcile(allEvents), filter)
+        : reconcile(allEvents);
+
+    const claimsNotDecoded = reconciliation.claims.filter(
+        c => c.decodeStatus !== 'ok',
+    );
+    if (claimsNotDecoded.length) {
+        logger.warn(
+            `\t${claimsNotDecoded.length} claims have claim data that could not be decoded as is, see their decodeStatus and decodeWarnings\n`,
+        );
+    }
+
+    const anomalyErrors = reconciliation.anomalies.filter(
+        a => a.severity === 'error',
+    );
+    if (anomalyErrors.length) {
+        logger.warn(
+            `\t${anomalyErrors.length} anomalies break the invariants of the totals, see the anomalies output\n`,
+        );
+    }
+
+    logger.info(`\tBALANCES\n`);
+
+    const balanceMismatches: BalanceMismatch[] = [];
+
+    // Contract state can only be read online.
+    if (offline) {
+        logger.info(
+            `\t\tSkipping balances reconciliation while running offline\n\n`,
+        );
+    } else {
+        // Balances are replayed from all the events, whatever the filter.
+        const { registryExtendedContract } =
+            getEwfContractsInstances(deployment);
+        await checkChainId(registryExtendedContract.provider, deployment);
+
+        balanceMismatches.push(
+            ...(await checkBalances(
+                registryExtendedContract,
+                reconciliation,
+                events.lastSyncedBlock,
+            )),
+        );
+
+        logger.info(
+            `\t\tFound ${balanceMismatches.length} balances not matching contract state\n\n`,
+        );
+    }
+
+    logger.info(`Finished parsing data from Energy Web Chain\n`);
+
+    return { ...reconciliation, events, balanceMismatches };
+};
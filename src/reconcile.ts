@@ -0,0 +1,735 @@
+import { BigNumber, constants } from 'ethers';
+
+import {
+    Agreement,
+    AgreementClaim,
+    AgreementClaimedArgs,
+    BalanceRegistry,
+    Batch,
+    BlockTimestamps,
+    Certificate,
+    CertificateBatchMintedArgs,
+    Claim,
+    ClaimBatchArgs,
+    ClaimBatchMultipleArgs,
+    ClaimSingleArgs,
+    Custody,
+    EwcEvent,
+    EwcEvents,
+    Inventory,
+    InventoryCertificate,
+    InventoryClassification,
+    MintedArgs,
+    Reconciliation,
+    Transfer,
+    TransferBatchArgs,
+    TransferBatchMultipleArgs,
+    TransferEventType,
+} from './types';
+import { buildStorageProviderReports } from './storage-providers';
+import { decodeClaimData } from './claim-data';
+import { decodeAgreementMetadata } from './agreement-metadata';
+import { findAnomalies } from './anomalies';
+import { buildAgreementLifecycles } from './lifecycle';
+import { blockTime } from './block-timestamps';
+
+/*
+ * Reconciliation of Energy Web Chain events
+ */
+
+// Single transfer entry, expanded from a TransferSingle, TransferBatch or TransferBatchMultiple event.
+type TransferEntry = {
+    id: BigNumber;
+    value: BigNumber;
+    operator: string;
+    from: string;
+    to: string;
+    eventType: TransferEventType;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    entryIndex: number;
+    transactionHash: string;
+};
+
+// Single claim entry, expanded from a ClaimSingle, ClaimBatch or ClaimBatchMultiple event.
+type ClaimEntry = {
+    id: BigNumber;
+    claimIssuer: string;
+    claimSubject: string;
+    topic: string;
+    value: BigNumber;
+    claimData: string;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    entryIndex: number;
+    transactionHash: string;
+};
+
+// Join all events into agreements, batches, certificates and claims. This function does not reach the network nor the
+// file system, the same events always give the same reconciliation.
+export const reconcile = (events: EwcEvents): Reconciliation => {
+    const batches: Batch[] = [];
+    const certificates: Certificate[] = [];
+    const claims: Claim[] = [];
+    const agreements: Agreement[] = [];
+    const certificatesInAgreement: { [key: string]: boolean } = {};
+
+    const transferEntries = expandTransferEvents(
+        events.transferSingle,
+        events.transferBatch,
+        events.transferBatchMultiple,
+    );
+    // Transfers from the Zero address are mints.
+    const mintEntries = transferEntries.filter(
+        t => t.from === constants.AddressZero,
+    );
+    const claimEntries = expandClaimEvents(
+        events.claimSingle,
+        events.claimBatch,
+        events.claimBatchMultiple,
+    );
+
+    // Index events once by the key they are joined on, so that the joins below scale linearly with the events count.
+    const agreementFilledArgsByAgreement = indexBy(
+        events.agreementFilled.map(e => e.args),
+        args => args.agreementAddress,
+    );
+    const certificateBatchMintedArgsByBatchId = indexBy(
+        events.certificateBatchMinted.map(e => e.args),
+        args => args.batchId,
+    );
+    const mintEntriesByTokenId = indexBy(mintEntries, entry =>
+        entry.id.toString(),
+    );
+    const claimEntriesByTokenId = indexBy(claimEntries, entry =>
+        entry.id.toString(),
+    );
+    const agreementClaimedEventsByAgreement = indexBy(
+        events.agreementClaimed,
+        e => e.args.agreementAddress,
+    );
+    const claimSingleEventsByTransaction = indexBy(
+        events.claimSingle,
+        e => e.transactionHash,
+    );
+    // The cached validity of an agreement may predate its AgreementInvalidated event.
+    const invalidatedAgreements: { [key: string]: boolean } = {};
+    for (const { args } of events.agreementInvalidated) {
+        invalidatedAgreements[args.agreementAddress] = true;
+    }
+
+    // Iterate through all signed agreements
+    const timestamp = (blockHash: string) =>
+        blockTime(events.blockTimestamps, blockHash);
+
+    for (const agreementSignedEvent of [...events.agreementSigned].sort(
+        (a, b) => a.blockNumber - b.blockNumber,
+    )) {
+        const {
+            agreementAddress: agreementSignedAddress,
+            buyer,
+            seller,
+            amount: agreementSignedAmount,
+        } = agreementSignedEvent.args;
+
+        // Agreement data is missing when the cache has not been synced yet.
+        if (!events.agreementsData[agreementSignedAddress]) {
+            continue;
+        }
+
+        const { metadata, valid } =
+            events.agreementsData[agreementSignedAddress];
+
+        if (!valid || invalidatedAgreements[agreementSignedAddress]) {
+            continue;
+        }
+        const certificateIds: string[] = [];
+        let filledAmount: BigNumber = BigNumber.from(0);
+        for (const {
+            certificateId,
+            amount: agreementFilledAmount,
+        } of agreementFilledArgsByAgreement[agreementSignedAddress] ?? []) {
+            certificatesInAgreement[certificateId.toString()] = true;
+            certificateIds.push(certificateId.toString());
+            filledAmount = filledAmount.add(agreementFilledAmount);
+        }
+        const agreementClaims = matchAgreementClaims(
+            agreementClaimedEventsByAgreement[agreementSignedAddress] ?? [],
+            claimSingleEventsByTransaction,
+            certificateIds,
+            events.blockTimestamps,
+        );
+        let claimedAmount = BigNumber.from(0);
+        agreementClaims.forEach(
+            c => (claimedAmount = claimedAmount.add(c.claimedAmount)),
+        );
+        agreements.push({
+            agreementAddress: agreementSignedAddress,
+            certificateIds,
+            signedAmount: agreementSignedAmount.toString(),
+            filledAmount: filledAmount.toString(),
+            claimedAmount: claimedAmount.toString(),
+            claimStatus: !agreementClaims.length
+                ? 'unclaimed'
+                : claimedAmount.gte(filledAmount)
+                ? 'claimed'
+                : 'partially-claimed',
+            buyer,
+            seller,
+            blockNumber: agreementSignedEvent.blockNumber,
+            logIndex: agreementSignedEvent.logIndex,
+            timestamp: timestamp(agreementSignedEvent.blockHash),
+            agreementClaims,
+            metadata,
+            ...decodeAgreementMetadata(metadata),
+        });
+    }
+
+    // Iterate through all redemption statement on-chain. Sorting by block number to tackle oldest to most recent.
+    for (const redemptionSetEvent of [...events.redemptionStatementSet].sort(
+        (a, b) => a.blockNumber - b.blockNumber,
+    )) {
+        const {
+            batchId: redemptionSetEventBatchId,
+            redemptionStatement,
+            storagePointer,
+        } = redemptionSetEvent.args;
+        const batchCertificateIds: string[] = [];
+        // Loop through CertificateBatchMinted events concerning the current batch we are iterating over.
+        for (const {
+            batchId: certificateBatchMintedEventBatchId,
+            certificateIds,
+        } of certificateBatchMintedArgsByBatchId[redemptionSetEventBatchId] ??
+            []) {
+            // Iterate over all certificates IDs that are related to the current batch we are iterating over.
+            for (const certificateId of certificateIds) {
+                // If no agreement contains certificate then it does not concern us.
+                if (!certificatesInAgreement[certificateId.toString()]) {
+                    continue;
+                }
+                // Looking for minting events concerning the certificate ID we are iterating over.
+                for (const mintEntry of mintEntriesByTokenId[
+                    certificateId.toString()
+                ] ?? []) {
+                    const {
+                        value: mintedValue,
+                        to,
+                        operator,
+                        from,
+                        eventType,
+                        blockNumber,
+                        blockHash,
+                        logIndex,
+                        entryIndex,
+                        transactionHash: mintTransactionHash,
+                    } = mintEntry;
+
+                    // Looking for claim events concerning the certificate ID we are iterating over.
+                    for (const claimEntry of claimEntriesByTokenId[
+                        certificateId.toString()
+                    ] ?? []) {
+                        claims.push(
+                            toClaim(claimEntry, events.blockTimestamps),
+                        );
+                    }
+                    batchCertificateIds.push(certificates.length.toString());
+                    certificates.push({
+                        tokenId: certificateId.toString(),
+                        batchId: certificateBatchMintedEventBatchId,
+                        value: mintedValue.toString(),
+                        operator,
+                        from,
+                        to,
+                        eventType,
+                        blockNumber,
+                        logIndex,
+                        entryIndex,
+                        timestamp: timestamp(blockHash),
+                        transactionHash: mintTransactionHash,
+                    });
+                }
+            }
+        }
+
+        batches.push({
+            batchId: redemptionSetEventBatchId,
+            storagePointer,
+            certificateIds: batchCertificateIds,
+            redemptionStatement,
+            blockNumber: redemptionSetEvent.blockNumber,
+            logIndex: redemptionSetEvent.logIndex,
+            timestamp: timestamp(redemptionSetEvent.blockHash),
+            transactionHash: redemptionSetEvent.transactionHash,
+        });
+    }
+
+    const { transfers, custodies, balances } = buildTransferLedger(
+        transferEntries,
+        events.blockTimestamps,
+    );
+    const claimedBalances = computeClaimedBalances(claimEntries);
+    const inventory = buildInventory(
+        mintEntries,
+        claimEntries,
+        agreements,
+        events.certificateBatchMinted,
+        claimedBalances,
+        events.blockTimestamps,
+    );
+
+    return {
+        agreements,
+        batches,
+        certificates,
+        claims,
+        transfers,
+        custodies,
+        storageProviders: buildStorageProviderReports(
+            inventory.claims,
+            inventory.certificates,
+            batches,
+        ),
+        holderBalances: balances,
+        claimedBalances,
+        inventory,
+        anomalies: findAnomalies(events, { agreements, inventory }),
+        agreementLifecycles: buildAgreementLifecycles(events),
+    };
+};
+
+const toClaim = (
+    {
+        id,
+        claimIssuer,
+        claimSubject,
+        topic,
+        value,
+        claimData,
+        blockNumber,
+        blockHash,
+        logIndex,
+        entryIndex,
+        transactionHash,
+    }: ClaimEntry,
+    blockTimestamps: BlockTimestamps,
+): Claim => ({
+    tokenId: id.toString(),
+    claimIssuer,
+    claimSubject,
+    topic,
+    value: value.toString(),
+    claimData: claimData.toString(),
+    ...decodeClaimData(claimData),
+    blockNumber,
+    logIndex,
+    entryIndex,
+    timestamp: blockTime(blockTimestamps, blockHash),
+    transactionHash,
+});
+
+// Claiming an agreement claims each of its certificates on the registry, which emits a ClaimSingle event with the same
+// claim data earlier in the transaction. Each ClaimSingle event is matched to a single agreement claim.
+const matchAgreementClaims = (
+    agreementClaimedEvents: EwcEvent<AgreementClaimedArgs>[],
+    claimSingleEventsByTransaction: {
+        [transactionHash: string]: EwcEvent<ClaimSingleArgs>[];
+    },
+    certificateIds: string[],
+    blockTimestamps: BlockTimestamps,
+): AgreementClaim[] => {
+    const matchedClaims: { [claim: string]: boolean } = {};
+
+    return [...agreementClaimedEvents]
+        .sort(
+            (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+        )
+        .map(({ args, blockNumber, blockHash, logIndex, transactionHash }) => {
+            const claimSingleEvents = (
+                claimSingleEventsByTransaction[transactionHash] ?? []
+            ).filter(
+                e =>
+                    e.logIndex < logIndex &&
+                    !matchedClaims[`${transactionHash}-${e.logIndex}`] &&
+                    certificateIds.includes(e.args._id.toString()) &&
+                    e.args._claimData.toLowerCase() ===
+                        args.claimData.toLowerCase(),
+            );
+            let claimedAmount = BigNumber.from(0);
+            for (const e of claimSingleEvents) {
+                matchedClaims[`${transactionHash}-${e.logIndex}`] = true;
+                claimedAmount = claimedAmount.add(e.args._value);
+            }
+
+            return {
+                claimData: args.claimData,
+                ...decodeClaimData(args.claimData),
+                claimedAmount: claimedAmount.toString(),
+                certificateIds: claimSingleEvents.map(e =>
+                    e.args._id.toString(),
+                ),
+                claimLogIndexes: claimSingleEvents.map(e => e.logIndex),
+                blockNumber,
+                logIndex,
+                timestamp: blockTime(blockTimestamps, blockHash),
+                transactionHash,
+            };
+        });
+};
+
+// Flatten all transfer events into one entry per (id, value) pair.
+const expandTransferEvents = (
+    transferSingleEvents: EwcEvent<MintedArgs>[],
+    transferBatchEvents: EwcEvent<TransferBatchArgs>[],
+    transferBatchMultipleEvents: EwcEvent<TransferBatchMultipleArgs>[],
+): TransferEntry[] => {
+    const transferEntries: TransferEntry[] = [];
+
+    for (const transferSingleEvent of transferSingleEvents) {
+        const { id, value, operator, from, to } = transferSingleEvent.args;
+
+        transferEntries.push({
+            id,
+            value,
+            operator,
+            from,
+            to,
+            eventType: 'TransferSingle',
+            blockNumber: transferSingleEvent.blockNumber,
+            blockHash: transferSingleEvent.blockHash,
+            logIndex: transferSingleEvent.logIndex,
+            entryIndex: 0,
+            transactionHash: transferSingleEvent.transactionHash,
+        });
+    }
+
+    for (const transferBatchEvent of transferBatchEvents) {
+        const { ids, values, operator, from, to } = transferBatchEvent.args;
+
+        ids.forEach((id, i) =>
+            transferEntries.push({
+                id,
+                value: values[i],
+                operator,
+                from,
+                to,
+                eventType: 'TransferBatch',
+                blockNumber: transferBatchEvent.blockNumber,
+                blockHash: transferBatchEvent.blockHash,
+                logIndex: transferBatchEvent.logIndex,
+                entryIndex: i,
+                transactionHash: transferBatchEvent.transactionHash,
+            }),
+        );
+    }
+
+    for (const transferBatchMultipleEvent of transferBatchMultipleEvents) {
+        const { ids, values, operator, from, to } =
+            transferBatchMultipleEvent.args;
+
+        ids.forEach((id, i) =>
+            transferEntries.push({
+                id,
+                value: values[i],
+                operator,
+                from: from[i],
+                to: to[i],
+                eventType: 'TransferBatchMultiple',
+                blockNumber: transferBatchMultipleEvent.blockNumber,
+                blockHash: transferBatchMultipleEvent.blockHash,
+                logIndex: transferBatchMultipleEvent.logIndex,
+                entryIndex: i,
+                transactionHash: transferBatchMultipleEvent.transactionHash,
+            }),
+        );
+    }
+
+    return transferEntries;
+};
+
+// Flatten all claim events into one entry per (id, value, claimData) triplet.
+const expandClaimEvents = (
+    claimSingleEvents: EwcEvent<ClaimSingleArgs>[],
+    claimBatchEvents: EwcEvent<ClaimBatchArgs>[],
+    claimBatchMultipleEvents: EwcEvent<ClaimBatchMultipleArgs>[],
+): ClaimEntry[] => {
+    const claimEntries: ClaimEntry[] = [];
+
+    for (const claimSingleEvent of claimSingleEvents) {
+        const {
+            _id: id,
+            _claimSubject: claimSubject,
+            _value: value,
+            _claimIssuer: claimIssuer,
+            _claimData: claimData,
+            _topic: topic,
+        } = claimSingleEvent.args;
+
+        claimEntries.push({
+            id,
+            claimIssuer,
+            claimSubject,
+            topic: topic.toString(),
+            value,
+            claimData,
+            blockNumber: claimSingleEvent.blockNumber,
+            blockHash: claimSingleEvent.blockHash,
+            logIndex: claimSingleEvent.logIndex,
+            entryIndex: 0,
+            transactionHash: claimSingleEvent.transactionHash,
+        });
+    }
+
+    // Topics are indexed arrays on batch claims, so only their hash is in the log and they can not be recovered.
+    for (const claimBatchEvent of claimBatchEvents) {
+        const {
+            _ids: ids,
+            _claimSubject: claimSubject,
+            _values: values,
+            _claimIssuer: claimIssuer,
+            _claimData: claimData,
+        } = claimBatchEvent.args;
+
+        ids.forEach((id, i) =>
+            claimEntries.push({
+                id,
+                claimIssuer,
+                claimSubject,
+                topic: '',
+                value: values[i],
+                claimData: claimData[i],
+                blockNumber: claimBatchEvent.blockNumber,
+                blockHash: claimBatchEvent.blockHash,
+                logIndex: claimBatchEvent.logIndex,
+                entryIndex: i,
+                transactionHash: claimBatchEvent.transactionHash,
+            }),
+        );
+    }
+
+    for (const claimBatchMultipleEvent of claimBatchMultipleEvents) {
+        const {
+            _ids: ids,
+            _claimSubject: claimSubjects,
+            _values: values,
+            _claimIssuer: claimIssuers,
+            _claimData: claimData,
+        } = claimBatchMultipleEvent.args;
+
+        ids.forEach((id, i) =>
+            claimEntries.push({
+                id,
+                claimIssuer: claimIssuers[i],
+                claimSubject: claimSubjects[i],
+                topic: '',
+                value: values[i],
+                claimData: claimData[i],
+                blockNumber: claimBatchMultipleEvent.blockNumber,
+                blockHash: claimBatchMultipleEvent.blockHash,
+                logIndex: claimBatchMultipleEvent.logIndex,
+                entryIndex: i,
+                transactionHash: claimBatchMultipleEvent.transactionHash,
+            }),
+        );
+    }
+
+    return claimEntries;
+};
+
+// Group items by key, preserving their original order within each group.
+const indexBy = <T>(
+    items: T[],
+    key: (item: T) => string,
+): { [key: string]: T[] } => {
+    const index: { [key: string]: T[] } = {};
+    for (const item of items) {
+        const k = key(item);
+        if (!index[k]) {
+            index[k] = [];
+        }
+        index[k].push(item);
+    }
+    return index;
+};
+
+// Replay all transfers in chain order to build the ledger and the custody chain of every certificate.
+const buildTransferLedger = (
+    transferEntries: TransferEntry[],
+    blockTimestamps: BlockTimestamps,
+): {
+    transfers: Transfer[];
+    custodies: Custody[];
+    balances: BalanceRegistry;
+} => {
+    const transfers: Transfer[] = [];
+    const custodies: { [key: string]: Custody } = {};
+    const balances: BalanceRegistry = {};
+
+    for (const transferEntry of [...transferEntries].sort(
+        (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+    )) {
+        const { id, value, from, to } = transferEntry;
+        const tokenId = id.toString();
+
+        transfers.push({
+            tokenId,
+            operator: transferEntry.operator,
+            from,
+            to,
+            value: value.toString(),
+            eventType: transferEntry.eventType,
+            blockNumber: transferEntry.blockNumber,
+            logIndex: transferEntry.logIndex,
+            timestamp: blockTime(blockTimestamps, transferEntry.blockHash),
+            transactionHash: transferEntry.transactionHash,
+        });
+
+        if (!custodies[tokenId]) {
+            custodies[tokenId] = {
+                tokenId,
+                mintedTo: [],
+                custodyChain: [],
+                currentHolders: [],
+            };
+            balances[tokenId] = {};
+        }
+        if (from === constants.AddressZero) {
+            custodies[tokenId].mintedTo.push(to);
+        }
+        custodies[tokenId].custodyChain.push(
+            `${from}>${to}:${value.toString()}`,
+        );
+
+        // Zero address balances are not tracked, transfers to it are burns.
+        const tokenBalances = balances[tokenId];
+        if (from !== constants.AddressZero) {
+            tokenBalances[from] = (
+                tokenBalances[from] ?? BigNumber.from(0)
+            ).sub(value);
+        }
+        if (to !== constants.AddressZero) {
+            tokenBalances[to] = (tokenBalances[to] ?? BigNumber.from(0)).add(
+                value,
+            );
+        }
+    }
+
+    for (const tokenId of Object.keys(custodies)) {
+        custodies[tokenId].currentHolders = Object.entries(balances[tokenId])
+            .filter(([, balance]) => !balance.isZero())
+            .map(([holder, balance]) => `${holder}:${balance.toString()}`);
+    }
+
+    return { transfers, custodies: Object.values(custodies), balances };
+};
+
+// List every minted certificate and every claim, classified by whether their certificate is in a valid agreement, only
+// in a batch, or in neither. Unlike the reconciliation above, nothing is left out.
+const buildInventory = (
+    mintEntries: TransferEntry[],
+    claimEntries: ClaimEntry[],
+    agreements: Agreement[],
+    certificateBatchMintedEvents: EwcEvent<CertificateBatchMintedArgs>[],
+    claimedBalances: BalanceRegistry,
+    blockTimestamps: BlockTimestamps,
+): Inventory => {
+    const agreementsByCertificate: { [tokenId: string]: string[] } = {};
+    for (const { agreementAddress, certificateIds } of agreements) {
+        for (const tokenId of certificateIds) {
+            if (!agreementsByCertificate[tokenId]) {
+                agreementsByCertificate[tokenId] = [];
+            }
+            if (!agreementsByCertificate[tokenId].includes(agreementAddress)) {
+                agreementsByCertificate[tokenId].push(agreementAddress);
+            }
+        }
+    }
+    const batchesByCertificate: { [tokenId: string]: string[] } = {};
+    for (const { args } of [...certificateBatchMintedEvents].sort(
+        (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+    )) {
+        for (const certificateId of args.certificateIds) {
+            const tokenId = certificateId.toString();
+            if (!batchesByCertificate[tokenId]) {
+                batchesByCertificate[tokenId] = [];
+            }
+            if (!batchesByCertificate[tokenId].includes(args.batchId)) {
+                batchesByCertificate[tokenId].push(args.batchId);
+            }
+        }
+    }
+
+    const classify = (tokenId: string): InventoryClassification => {
+        if (agreementsByCertificate[tokenId]) {
+            return 'in-agreement';
+        }
+        return batchesByCertificate[tokenId] ? 'batch-only' : 'orphan';
+    };
+
+    const certificates: { [tokenId: string]: InventoryCertificate } = {};
+    for (const {
+        id,
+        value,
+        to,
+        blockNumber,
+        blockHash,
+        logIndex,
+        transactionHash,
+    } of [...mintEntries].sort(
+        (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+    )) {
+        const tokenId = id.toString();
+        if (certificates[tokenId]) {
+            certificates[tokenId].mintedValue = BigNumber.from(
+                certificates[tokenId].mintedValue,
+            )
+                .add(value)
+                .toString();
+            certificates[tokenId].mintedTo.push(to);
+            continue;
+        }
+        certificates[tokenId] = {
+            tokenId,
+            classification: classify(tokenId),
+            mintedValue: value.toString(),
+            claimedValue: Object.values(claimedBalances[tokenId] ?? {})
+                .reduce((sum, claimed) => sum.add(claimed), BigNumber.from(0))
+                .toString(),
+            mintedTo: [to],
+            batchIds: batchesByCertificate[tokenId] ?? [],
+            agreementAddresses: agreementsByCertificate[tokenId] ?? [],
+            blockNumber,
+            logIndex,
+            timestamp: blockTime(blockTimestamps, blockHash),
+            transactionHash,
+        };
+    }
+
+    return {
+        certificates: Object.values(certificates),
+        claims: claimEntries.map(claimEntry => ({
+            ...toClaim(claimEntry, blockTimestamps),
+            classification: classify(claimEntry.id.toString()),
+        })),
+    };
+};
+
+// Sum claimed values per certificate and claim subject, mirroring the claimedBalances mapping of the registry.
+const computeClaimedBalances = (
+    claimEntries: ClaimEntry[],
+): BalanceRegistry => {
+    const claimedBalances: BalanceRegistry = {};
+
+    for (const { id, claimSubject, value } of claimEntries) {
+        const tokenId = id.toString();
+        if (!claimedBalances[tokenId]) {
+            claimedBalances[tokenId] = {};
+        }
+        claimedBalances[tokenId][claimSubject] = (
+            claimedBalances[tokenId][claimSubject] ?? BigNumber.from(0)
+        ).add(value);
+    }
+
+    return claimedBalances;
+};
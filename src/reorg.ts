@@ -0,0 +1,67 @@
+import { ethers } from 'ethers';
+
+/*
+ * Chain reorganisation detection
+ */
+
+// Number of blocks at the tip of a cache whose hashes are checked against the chain on each run.
+export const DEFAULT_REORG_CHECK_DEPTH = 100;
+
+type CachedBlock = {
+    blockNumber: number;
+    blockHash?: string;
+};
+
+// Block hashes are shared by all caches checked during a run, one registry per provider.
+const blockHashes = new WeakMap<
+    ethers.providers.Provider,
+    Map<number, Promise<string>>
+>();
+
+export const getBlockHash = (
+    provider: ethers.providers.Provider,
+    blockNumber: number,
+): Promise<string> => {
+    if (!blockHashes.has(provider)) {
+        blockHashes.set(provider, new Map());
+    }
+    const providerBlockHashes = blockHashes.get(provider)!;
+    if (!providerBlockHashes.has(blockNumber)) {
+        providerBlockHashes.set(
+            blockNumber,
+            provider.getBlock(blockNumber).then(block => {
+                if (!block) {
+                    throw new Error(`Block ${blockNumber} is not on the chain`);
+                }
+                return block.hash;
+            }),
+        );
+    }
+
+    return providerBlockHashes.get(blockNumber)!;
+};
+
+// Check the hashes of cached blocks from a given block onwards, oldest first. Returns the last block up to which the
+// cache can be kept, or undefined when every hash still matches the chain.
+export const findRollbackBlock = async (
+    provider: ethers.providers.Provider,
+    cachedBlocks: CachedBlock[],
+    fromBlock: number,
+): Promise<number | undefined> => {
+    const checkedBlocks = cachedBlocks
+        .filter(b => b.blockNumber >= fromBlock)
+        .sort((a, b) => a.blockNumber - b.blockNumber);
+
+    let lastValidBlock = fromBlock - 1;
+    for (const { blockNumber, blockHash } of checkedBlocks) {
+        if (blockNumber === lastValidBlock) {
+            continue;
+        }
+        if ((await getBlockHash(provider, blockNumber)) !== blockHash) {
+            return lastValidBlock;
+        }
+        lastValidBlock = blockNumber;
+    }
+
+    return undefined;
+};
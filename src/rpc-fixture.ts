@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+/*
+ * Record and replay of JSON-RPC traffic
+ */
+
+export type RpcFixtureOptions = {
+    // Either save the traffic to the fixture file, or answer requests from it without reaching the network.
+    mode: 'record' | 'replay';
+    file: string;
+};
+
+// One line of the fixture file, holding a request and the response it got.
+type RpcFixtureEntry = {
+    method: string;
+    params: unknown[];
+    result?: unknown;
+    error?: {
+        message: string;
+        code?: string | number;
+        data?: unknown;
+        body?: string;
+    };
+};
+
+const requestKey = (method: string, params: unknown[]) =>
+    JSON.stringify([method, params]);
+
+// Entries are appended as they come, so that an interrupted run keeps what it recorded.
+const appendEntry = (file: string, entry: RpcFixtureEntry) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+};
+
+// Keep the fields ethers reads from RPC errors, so that a replayed error is handled the same way as the recorded one.
+const toFixtureError = (
+    err: unknown,
+): NonNullable<RpcFixtureEntry['error']> => {
+    const { message, code, data, body } = (
+        typeof err === 'object' && err !== null ? err : {}
+    ) as { [field: string]: unknown };
+
+    return {
+        message: typeof message === 'string' ? message : String(err),
+        code:
+            typeof code === 'string' || typeof code === 'number'
+                ? code
+                : undefined,
+        data,
+        body: typeof body === 'string' ? body : undefined,
+    };
+};
+
+// Provider saving every request it sends, along with its response or error, to a fixture file.
+export class RecordingProvider extends ethers.providers.StaticJsonRpcProvider {
+    readonly fixtureFile: string;
+
+    constructor(url: string, fixtureFile: string) {
+        super(url);
+        this.fixtureFile = fixtureFile;
+    }
+
+    async send(method: string, params: unknown[]): Promise<unknown> {
+        try {
+            const result: unknown = await super.send(method, params);
+            appendEntry(this.fixtureFile, { method, params, result });
+            return result;
+        } catch (err) {
+            appendEntry(this.fixtureFile, {
+                method,
+                params,
+                error: toFixtureError(err),
+            });
+            throw err;
+        }
+    }
+}
+
+// Provider answering requests from a fixture file, failing on any request that has not been recorded.
+export class ReplayProvider extends ethers.providers.StaticJsonRpcProvider {
+    readonly fixtureFile: string;
+    private readonly entries: Map<string, RpcFixtureEntry>;
+
+    constructor(fixtureFile: string) {
+        super();
+        if (!fs.existsSync(fixtureFile)) {
+            throw new Error(`RPC fixture file not found: ${fixtureFile}`);
+        }
+        this.fixtureFile = fixtureFile;
+        this.entries = new Map();
+        // The same request may have been recorded more than once (e.g. retried after a transient error), the last
+        // response wins.
+        for (const line of fs
+            .readFileSync(fixtureFile)
+            .toString()
+            .split('\n')) {
+            if (!line) {
+                continue;
+            }
+            const entry: RpcFixtureEntry = JSON.parse(line);
+            this.entries.set(requestKey(entry.method, entry.params), entry);
+        }
+    }
+
+    async send(method: string, params: unknown[]): Promise<unknown> {
+        // Round-trip params through JSON so that they are compared the same way they were recorded.
+        const entry = this.entries.get(
+            requestKey(method, JSON.parse(JSON.stringify(params))),
+        );
+        if (!entry) {
+            throw new Error(
+                `No recorded response in ${
+                    this.fixtureFile
+                } for ${method} ${JSON.stringify(params)}`,
+            );
+        }
+        if (entry.error) {
+            throw Object.assign(new Error(entry.error.message), entry.error);
+        }
+
+        return entry.result;
+    }
+}
@@ -0,0 +1,501 @@
+import { BigNumber, constants } from 'ethers';
+import initSqlJs, { Database } from 'sql.js';
+import fs from 'fs';
+import path from 'path';
+
+import { logger } from './logger';
+import { blockTime } from './block-timestamps';
+import { claimMinerId } from './storage-providers';
+import { EwcData, EwcEvent, EwcEvents, InventoryClassification } from './types';
+
+/*
+ * SQLite export
+ */
+
+// Amounts are uint256 values in Wh that may not fit in 64 bits. They are stored as decimal strings in TEXT columns, as
+// INTEGER columns would turn the larger ones into imprecise REAL values. SUM and CAST still read them as numbers.
+// Decode statuses are either ok, legacy-array (claim data only), recovered or failed, and are followed by the decoding
+// warnings as a JSON array.
+const SCHEMA = `
+-- Every minted certificate and every claim, classified as in-agreement, batch-only (linked to a batch but in no valid
+-- agreement) or orphan.
+CREATE TABLE certificates (
+    token_id TEXT PRIMARY KEY,
+    classification TEXT NOT NULL,
+    -- Total amount minted for the certificate, in Wh.
+    minted_value TEXT NOT NULL,
+    operator TEXT,
+    minted_to TEXT,
+    event_type TEXT,
+    -- Block of the first mint, with its time as an ISO-8601 string.
+    block_number INTEGER,
+    timestamp TEXT,
+    transaction_hash TEXT
+);
+
+-- Every batch certificates were linked to, with its redemption statement and the RedemptionStatementSet event it was set
+-- at, NULL for batches given none.
+CREATE TABLE batches (
+    batch_id TEXT PRIMARY KEY,
+    redemption_statement TEXT,
+    storage_pointer TEXT,
+    block_number INTEGER,
+    timestamp TEXT,
+    transaction_hash TEXT
+);
+
+CREATE TABLE batch_certificates (
+    batch_id TEXT NOT NULL REFERENCES batches (batch_id),
+    token_id TEXT NOT NULL REFERENCES certificates (token_id),
+    PRIMARY KEY (batch_id, token_id)
+);
+
+CREATE TABLE agreements (
+    agreement_address TEXT PRIMARY KEY,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    signed_amount TEXT NOT NULL,
+    filled_amount TEXT NOT NULL,
+    claimed_amount TEXT NOT NULL,
+    -- Either unclaimed, partially-claimed or claimed.
+    claim_status TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    product_type TEXT NOT NULL,
+    -- Energy sources, as a JSON array.
+    energy_sources TEXT NOT NULL,
+    country TEXT NOT NULL,
+    region TEXT NOT NULL,
+    agreement_id TEXT NOT NULL,
+    order_id TEXT NOT NULL,
+    metadata_data TEXT NOT NULL,
+    metadata_decode_status TEXT NOT NULL,
+    metadata_decode_warnings TEXT NOT NULL
+);
+
+CREATE TABLE agreement_certificates (
+    agreement_address TEXT NOT NULL REFERENCES agreements (agreement_address),
+    token_id TEXT NOT NULL REFERENCES certificates (token_id),
+    PRIMARY KEY (agreement_address, token_id)
+);
+
+CREATE TABLE agreement_claims (
+    agreement_claim_id INTEGER PRIMARY KEY,
+    agreement_address TEXT NOT NULL REFERENCES agreements (agreement_address),
+    claim_data TEXT NOT NULL,
+    -- Decoded claim data, as a JSON object.
+    claim_data_decoded TEXT NOT NULL,
+    decode_status TEXT NOT NULL,
+    decode_warnings TEXT NOT NULL,
+    -- Amount claimed by the ClaimSingle events matched to the agreement claim, with their certificates and log indexes
+    -- as JSON arrays.
+    claimed_amount TEXT NOT NULL,
+    certificate_ids TEXT NOT NULL,
+    claim_log_indexes TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL
+);
+
+CREATE TABLE claims (
+    claim_id INTEGER PRIMARY KEY,
+    token_id TEXT NOT NULL REFERENCES certificates (token_id),
+    classification TEXT NOT NULL,
+    -- Filecoin miner ID of the storage provider, empty when it is not found in the claim data.
+    miner_id TEXT NOT NULL,
+    claim_issuer TEXT NOT NULL,
+    claim_subject TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    value TEXT NOT NULL,
+    claim_data TEXT NOT NULL,
+    -- Decoded claim data, as a JSON object.
+    claim_data_decoded TEXT NOT NULL,
+    decode_status TEXT NOT NULL,
+    decode_warnings TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL
+);
+
+-- Every agreement, signed and valid or not, with the blocks it reached each state at.
+CREATE TABLE agreement_lifecycles (
+    agreement_address TEXT PRIMARY KEY,
+    -- Either deployed, signed, partially-filled, fully-filled, claimed or invalidated.
+    state TEXT NOT NULL,
+    state_block INTEGER,
+    state_timestamp TEXT NOT NULL,
+    deployed_block INTEGER,
+    signed_block INTEGER,
+    partially_filled_block INTEGER,
+    fully_filled_block INTEGER,
+    claimed_block INTEGER,
+    invalidated_block INTEGER,
+    signed_amount TEXT NOT NULL,
+    filled_amount TEXT NOT NULL
+);
+
+CREATE TABLE anomalies (
+    anomaly_id INTEGER PRIMARY KEY,
+    -- Either error or warning.
+    severity TEXT NOT NULL,
+    -- Invariant that does not hold.
+    check_name TEXT NOT NULL,
+    -- Either certificate, agreement, batch or claim, with its token ID, address, batch ID or transaction hash.
+    subject_type TEXT NOT NULL,
+    subject_id TEXT NOT NULL,
+    message TEXT NOT NULL
+);
+
+CREATE TABLE events (
+    event_id INTEGER PRIMARY KEY,
+    event_name TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    -- Time of the block as an ISO-8601 string, empty when its timestamp has not been synced.
+    timestamp TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    -- Decoded event args, as a JSON object.
+    args TEXT NOT NULL
+);
+
+CREATE INDEX claims_token_id ON claims (token_id);
+CREATE INDEX claims_miner_id ON claims (miner_id);
+CREATE INDEX batch_certificates_token_id ON batch_certificates (token_id);
+CREATE INDEX agreement_certificates_token_id ON agreement_certificates (token_id);
+CREATE INDEX events_event_name ON events (event_name);
+`;
+
+// Name of the contract event stored under each key of the events.
+const EVENT_NAMES: {
+    [key in Exclude<
+        keyof EwcEvents,
+        'agreementsData' | 'blockTimestamps' | 'lastSyncedBlock'
+    >]: string;
+} = {
+    agreementsDeployed: 'AgreementsDeployed',
+    agreementSigned: 'AgreementSigned',
+    agreementFilled: 'AgreementFilled',
+    agreementClaimed: 'AgreementClaimed',
+    agreementInvalidated: 'AgreementInvalidated',
+    transferSingle: 'TransferSingle',
+    transferBatch: 'TransferBatch',
+    transferBatchMultiple: 'TransferBatchMultiple',
+    redemptionStatementSet: 'RedemptionStatementSet',
+    certificateBatchMinted: 'CertificateBatchMinted',
+    claimSingle: 'ClaimSingle',
+    claimBatch: 'ClaimBatch',
+    claimBatchMultiple: 'ClaimBatchMultiple',
+};
+
+// Convert decoded args to plain JSON values. Args decoded by ethers are arrays holding both positional and named keys,
+// only the named ones are kept.
+const toJSONValue = (value: unknown): unknown => {
+    if (BigNumber.isBigNumber(value)) {
+        return value.toString();
+    }
+    if (Array.isArray(value) && Object.keys(value).length === value.length) {
+        return value.map(toJSONValue);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value)
+                .filter(key => !/^\d+$/.test(key))
+                .map(key => [
+                    key,
+                    toJSONValue((value as { [key: string]: unknown })[key]),
+                ]),
+        );
+    }
+    return value;
+};
+
+const insertRows = (
+    db: Database,
+    sql: string,
+    rows: (string | number | null)[][],
+) => {
+    const statement = db.prepare(sql);
+    try {
+        for (const row of rows) {
+            statement.run(row);
+        }
+    } finally {
+        statement.free();
+    }
+};
+
+// Build the database in memory, one row per certificate, batch, agreement, claim and raw event.
+const buildDatabase = async ({
+    agreements,
+    batches,
+    certificates: reconciledCertificates,
+    transfers,
+    inventory,
+    anomalies,
+    agreementLifecycles,
+    events,
+}: EwcData): Promise<Database> => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run('PRAGMA foreign_keys = ON;');
+    db.run(SCHEMA);
+    db.run('BEGIN;');
+
+    const classifications: { [tokenId: string]: InventoryClassification } = {};
+    for (const { tokenId, classification } of [
+        ...inventory.certificates,
+        ...inventory.claims,
+    ]) {
+        classifications[tokenId] = classification;
+    }
+
+    // Certificates are read from the ledger, so that every minted certificate can be referenced.
+    const certificates: {
+        [tokenId: string]: (string | number | null)[];
+    } = {};
+    for (const {
+        tokenId,
+        from,
+        to,
+        value,
+        operator,
+        eventType,
+        blockNumber,
+        timestamp,
+        transactionHash,
+    } of transfers) {
+        if (from !== constants.AddressZero) {
+            continue;
+        }
+        if (certificates[tokenId]) {
+            certificates[tokenId][2] = BigNumber.from(certificates[tokenId][2])
+                .add(value)
+                .toString();
+            continue;
+        }
+        certificates[tokenId] = [
+            tokenId,
+            classifications[tokenId],
+            value,
+            operator,
+            to,
+            eventType,
+            blockNumber,
+            timestamp,
+            transactionHash,
+        ];
+    }
+    // Batches are linked to their certificates by the CertificateBatchMinted events, whether or not the certificates are in
+    // an agreement.
+    const batchCertificates = events.certificateBatchMinted.flatMap(
+        ({ args }) =>
+            args.certificateIds.map(certificateId => [
+                args.batchId,
+                certificateId.toString(),
+            ]),
+    );
+    // Certificates referenced by agreements, batches or claims without any known mint still get a row.
+    for (const tokenId of [
+        ...reconciledCertificates.map(c => c.tokenId),
+        ...agreements.flatMap(a => a.certificateIds),
+        ...batchCertificates.map(([, tokenId]) => tokenId),
+        ...inventory.claims.map(c => c.tokenId),
+    ]) {
+        if (!certificates[tokenId]) {
+            certificates[tokenId] = [
+                tokenId,
+                classifications[tokenId] ??
+                    (agreements.some(a => a.certificateIds.includes(tokenId))
+                        ? 'in-agreement'
+                        : 'batch-only'),
+                '0',
+                '',
+                '',
+                '',
+                null,
+                '',
+                '',
+            ];
+        }
+    }
+    insertRows(
+        db,
+        'INSERT INTO certificates VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        Object.values(certificates),
+    );
+
+    // A batch given several redemption statements keeps the first one, all of them are in the events table.
+    insertRows(db, 'INSERT OR IGNORE INTO batches VALUES (?, ?, ?, ?, ?, ?)', [
+        ...batches.map(b => [
+            b.batchId,
+            b.redemptionStatement,
+            b.storagePointer,
+            b.blockNumber,
+            b.timestamp,
+            b.transactionHash,
+        ]),
+        ...batchCertificates.map(([batchId]) => [
+            batchId,
+            null,
+            null,
+            null,
+            null,
+            null,
+        ]),
+    ]);
+    insertRows(
+        db,
+        'INSERT OR IGNORE INTO batch_certificates VALUES (?, ?)',
+        batchCertificates,
+    );
+
+    insertRows(
+        db,
+        'INSERT INTO agreements VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        agreements.map(a => [
+            a.agreementAddress,
+            a.buyer,
+            a.seller,
+            a.signedAmount,
+            a.filledAmount,
+            a.claimedAmount,
+            a.claimStatus,
+            a.blockNumber,
+            a.timestamp,
+            a.metadata,
+            a.productType,
+            JSON.stringify(a.energySources),
+            a.country,
+            a.region,
+            a.agreementId,
+            a.orderId,
+            a.metadataData,
+            a.metadataDecodeStatus,
+            JSON.stringify(a.metadataDecodeWarnings),
+        ]),
+    );
+    insertRows(
+        db,
+        'INSERT OR IGNORE INTO agreement_certificates VALUES (?, ?)',
+        agreements.flatMap(a =>
+            a.certificateIds.map(tokenId => [a.agreementAddress, tokenId]),
+        ),
+    );
+    insertRows(
+        db,
+        `INSERT INTO agreement_claims (agreement_address, claim_data, claim_data_decoded, decode_status, decode_warnings,
+            claimed_amount, certificate_ids, claim_log_indexes, block_number, timestamp, transaction_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        agreements.flatMap(a =>
+            a.agreementClaims.map(c => [
+                a.agreementAddress,
+                c.claimData,
+                JSON.stringify(c.claimDataDecoded),
+                c.decodeStatus,
+                JSON.stringify(c.decodeWarnings),
+                c.claimedAmount,
+                JSON.stringify(c.certificateIds),
+                JSON.stringify(c.claimLogIndexes),
+                c.blockNumber,
+                c.timestamp,
+                c.transactionHash,
+            ]),
+        ),
+    );
+
+    // Claims are read from the inventory, which holds each of them once, including the ones in no agreement.
+    insertRows(
+        db,
+        `INSERT INTO claims (token_id, classification, miner_id, claim_issuer, claim_subject, topic, value, claim_data,
+            claim_data_decoded, decode_status, decode_warnings, block_number, timestamp, transaction_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        inventory.claims.map(c => [
+            c.tokenId,
+            c.classification,
+            claimMinerId(c) ?? '',
+            c.claimIssuer,
+            c.claimSubject,
+            c.topic,
+            c.value,
+            c.claimData,
+            JSON.stringify(c.claimDataDecoded),
+            c.decodeStatus,
+            JSON.stringify(c.decodeWarnings),
+            c.blockNumber,
+            c.timestamp,
+            c.transactionHash,
+        ]),
+    );
+
+    insertRows(
+        db,
+        'INSERT INTO agreement_lifecycles VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        agreementLifecycles.map(l => [
+            l.agreementAddress,
+            l.state,
+            l.stateBlock,
+            l.stateTimestamp,
+            l.deployedBlock,
+            l.signedBlock,
+            l.partiallyFilledBlock,
+            l.fullyFilledBlock,
+            l.claimedBlock,
+            l.invalidatedBlock,
+            l.signedAmount,
+            l.filledAmount,
+        ]),
+    );
+
+    insertRows(
+        db,
+        `INSERT INTO anomalies (severity, check_name, subject_type, subject_id, message)
+            VALUES (?, ?, ?, ?, ?)`,
+        anomalies.map(a => [
+            a.severity,
+            a.check,
+            a.subjectType,
+            a.subjectId,
+            a.message,
+        ]),
+    );
+
+    for (const key of Object.keys(
+        EVENT_NAMES,
+    ) as (keyof typeof EVENT_NAMES)[]) {
+        insertRows(
+            db,
+            `INSERT INTO events (event_name, block_number, block_hash, log_index, timestamp, transaction_hash, args)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            (events[key] as EwcEvent<unknown>[]).map(e => [
+                EVENT_NAMES[key],
+                e.blockNumber,
+                e.blockHash,
+                e.logIndex,
+                blockTime(events.blockTimestamps, e.blockHash),
+                e.transactionHash,
+                JSON.stringify(toJSONValue(e.args)),
+            ]),
+        );
+    }
+
+    db.run('COMMIT;');
+
+    return db;
+};
+
+export const writeSQLite = async (ewcData: EwcData, filePath: string) => {
+    const db = await buildDatabase(ewcData);
+    try {
+        await fs.promises.writeFile(filePath, db.export());
+    } catch (err) {
+        logger.error(
+            `\tError while generating ${filePath}: ${(err as Error).message}\n`,
+        );
+        throw err;
+    } finally {
+        db.close();
+    }
+    logger.info(`\t${path.basename(filePath)} generated!\n`);
+};
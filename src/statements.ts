@@ -0,0 +1,259 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+
+import {
+    CHUNKING_PROFILES,
+    computeCid,
+    matchingProfile,
+    parseCid,
+} from './cid';
+import { logger } from './logger';
+import { writeFileAtomic } from './files';
+import { Batch, StatementStatus, StatementVerification } from './types';
+
+/*
+ * Verification of redemption statements against their CIDs
+ */
+
+export const DEFAULT_IPFS_GATEWAY = 'https://dweb.link';
+
+export type StatementVerificationOptions = {
+    // Directory the downloaded statements are cached in, one file per CID.
+    cacheDir: string;
+    // IPFS HTTP gateway, statements are downloaded from `<gatewayUrl>/ipfs/<cid>`.
+    gatewayUrl: string;
+    // RPC API of a local IPFS node (e.g. http://127.0.0.1:5001), used instead of the gateway when set.
+    ipfsApiUrl?: string;
+    // Timeout of each download, in milliseconds.
+    timeout: number;
+    // Number of statements downloaded at the same time.
+    concurrency: number;
+};
+
+export const DEFAULT_STATEMENT_VERIFICATION_OPTIONS: Omit<
+    StatementVerificationOptions,
+    'cacheDir'
+> = {
+    gatewayUrl: DEFAULT_IPFS_GATEWAY,
+    timeout: 60_000,
+    concurrency: 4,
+};
+
+// Statements are PDF files, anything larger is not downloaded.
+const MAX_STATEMENT_SIZE = 64 * 1024 * 1024;
+
+const MAX_REDIRECTS = 5;
+
+const request = (
+    url: string,
+    method: 'GET' | 'POST',
+    timeout: number,
+    redirects = MAX_REDIRECTS,
+): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const client = url.startsWith('https:') ? https : http;
+        const req = client.request(url, { method, timeout }, res => {
+            const { statusCode = 0, headers } = res;
+            // Gateways redirect path requests to their subdomain form.
+            if (statusCode >= 300 && statusCode < 400 && headers.location) {
+                res.resume();
+                if (!redirects) {
+                    reject(new Error('too many redirects'));
+                    return;
+                }
+                resolve(
+                    request(
+                        new URL(headers.location, url).toString(),
+                        method,
+                        timeout,
+                        redirects - 1,
+                    ),
+                );
+                return;
+            }
+            if (statusCode < 200 || statusCode >= 300) {
+                res.resume();
+                reject(new Error(`HTTP ${statusCode} from ${url}`));
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            res.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_STATEMENT_SIZE) {
+                    req.destroy(
+                        new Error(
+                            `statement is larger than ${MAX_STATEMENT_SIZE} bytes`,
+                        ),
+                    );
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            res.on('end', () => resolve(Buffer.concat(chunks)));
+            res.on('error', reject);
+        });
+        req.on('timeout', () =>
+            req.destroy(new Error(`timed out after ${timeout}ms`)),
+        );
+        req.on('error', reject);
+        req.end();
+    });
+
+// Read a statement from the cache, downloading it first if needed. Files are only cached once verified against their
+// CID, so that a gateway error page is never served from the cache.
+const fetchStatement = async (
+    cid: string,
+    { cacheDir, gatewayUrl, ipfsApiUrl, timeout }: StatementVerificationOptions,
+): Promise<{ bytes: Buffer; cached: boolean }> => {
+    const filePath = path.resolve(cacheDir, cid);
+    if (fs.existsSync(filePath)) {
+        return { bytes: await fs.promises.readFile(filePath), cached: true };
+    }
+
+    const bytes = ipfsApiUrl
+        ? await request(
+              `${ipfsApiUrl.replace(/\/$/, '')}/api/v0/cat?arg=${cid}`,
+              'POST',
+              timeout,
+          )
+        : await request(
+              `${gatewayUrl.replace(/\/$/, '')}/ipfs/${cid}`,
+              'GET',
+              timeout,
+          );
+    return { bytes, cached: false };
+};
+
+// CIDv1 are case insensitive, and gateways put them lowercased in subdomains.
+const storagePointerMatches = (storagePointer: string, cid: string) =>
+    cid.startsWith('Qm')
+        ? storagePointer.includes(cid)
+        : storagePointer.toLowerCase().includes(cid.toLowerCase());
+
+type CidVerification = Pick<
+    StatementVerification,
+    'status' | 'chunkingProfile' | 'computedCid' | 'byteLength' | 'error'
+>;
+
+const verifyCid = async (
+    cid: string,
+    options: StatementVerificationOptions,
+): Promise<CidVerification> => {
+    const verification: CidVerification = {
+        status: 'verified',
+        chunkingProfile: '',
+        computedCid: '',
+        byteLength: null,
+        error: '',
+    };
+
+    let parsedCid: ReturnType<typeof parseCid>;
+    try {
+        parsedCid = parseCid(cid);
+    } catch (err) {
+        return {
+            ...verification,
+            status: 'invalid-cid',
+            error: (err as Error).message,
+        };
+    }
+
+    let statement: { bytes: Buffer; cached: boolean };
+    try {
+        statement = await fetchStatement(cid, options);
+    } catch (err) {
+        return {
+            ...verification,
+            status: 'unavailable',
+            error: (err as Error).message,
+        };
+    }
+
+    const { bytes, cached } = statement;
+    const chunkingProfile = matchingProfile(bytes, cid);
+    if (!chunkingProfile) {
+        return {
+            ...verification,
+            status: 'mismatch',
+            computedCid: computeCid(bytes, parsedCid, CHUNKING_PROFILES[0]),
+            byteLength: bytes.length,
+        };
+    }
+
+    if (!cached) {
+        writeFileAtomic(path.resolve(options.cacheDir, cid), bytes);
+    }
+    return { ...verification, chunkingProfile, byteLength: bytes.length };
+};
+
+// Download the redemption statement of every batch and check that its bytes hash to the CID set on chain, and that the
+// storage pointer refers to that CID. Each CID is downloaded once, whatever the number of batches it is set on.
+export const verifyStatements = async (
+    batches: Batch[],
+    options: StatementVerificationOptions,
+): Promise<StatementVerification[]> => {
+    logger.info(`\tVERIFYING REDEMPTION STATEMENTS\n`);
+
+    const cids = [...new Set(batches.map(b => b.redemptionStatement))];
+    const verifications: { [cid: string]: CidVerification } = {};
+
+    let next = 0;
+    const worker = async () => {
+        while (next < cids.length) {
+            const cid = cids[next++];
+            verifications[cid] = await verifyCid(cid, options);
+            const { status, error } = verifications[cid];
+            logger.debug(
+                `\t\t${cid}: ${status}${error ? ` (${error})` : ''}\n`,
+            );
+        }
+    };
+    await Promise.all(
+        new Array(Math.max(1, options.concurrency)).fill(0).map(worker),
+    );
+
+    const rows = batches.map(b => ({
+        batchId: b.batchId,
+        redemptionStatement: b.redemptionStatement,
+        storagePointer: b.storagePointer,
+        storagePointerMatches: storagePointerMatches(
+            b.storagePointer,
+            b.redemptionStatement,
+        ),
+        ...verifications[b.redemptionStatement],
+    }));
+
+    const counts: { [status in StatementStatus]: number } = {
+        verified: 0,
+        mismatch: 0,
+        unavailable: 0,
+        'invalid-cid': 0,
+    };
+    for (const row of rows) {
+        counts[row.status]++;
+        if (row.status === 'mismatch' || row.status === 'invalid-cid') {
+            logger.warn(
+                `\t\tBatch ${row.batchId}: redemption statement ${row.redemptionStatement} is ${row.status}\n`,
+            );
+        }
+        if (!row.storagePointerMatches) {
+            logger.warn(
+                `\t\tBatch ${row.batchId}: storage pointer ${row.storagePointer} does not contain ${row.redemptionStatement}\n`,
+            );
+        }
+    }
+    for (const status of Object.keys(counts) as StatementStatus[]) {
+        logger.info(`\t\t${status}: ${counts[status]} batches\n`);
+    }
+    logger.info(
+        `\t\tstorage pointer mismatches: ${
+            rows.filter(r => !r.storagePointerMatches).length
+        } batches\n`,
+    );
+
+    return rows;
+};
@@ -0,0 +1,109 @@
+import { BigNumber } from 'ethers';
+
+import {
+    Batch,
+    Claim,
+    InventoryCertificate,
+    StorageProviderReport,
+} from './types';
+
+/*
+ * Per storage provider report
+ */
+
+// Filecoin miner IDs (f0 on mainnet, t0 on testnets) are written after a `;` in claim data, e.g. `<uuid>;f0678914`.
+const MINER_ID_PATTERN = /(?:^|[;\s])([ft]0\d+)(?!\d)/;
+
+export const parseMinerId = (value: string): string | undefined =>
+    value?.match(MINER_ID_PATTERN)?.[1];
+
+// Storage provider a claim went to, read from the beneficiary or, when missing there, from the consumption entity.
+export const claimMinerId = ({ claimDataDecoded }: Claim) =>
+    parseMinerId(claimDataDecoded.beneficiary) ??
+    parseMinerId(claimDataDecoded.consumptionEntityID);
+
+// The reconciliation repeats a claim for each batch its certificate is in, keep each claim once. Identical claims made
+// in the same transaction are told apart by their position.
+export const uniqueClaims = (claims: Claim[]): Claim[] => {
+    const unique: { [key: string]: Claim } = {};
+    for (const claim of claims) {
+        unique[
+            JSON.stringify([
+                claim.transactionHash,
+                claim.logIndex,
+                claim.entryIndex,
+            ])
+        ] = claim;
+    }
+    return Object.values(unique);
+};
+
+const addUnique = (values: string[], value: string) => {
+    if (value && !values.includes(value)) {
+        values.push(value);
+    }
+};
+
+// Group claims by the storage provider they went to, whether or not their certificate was filled into an agreement, from
+// the inventory claims and certificates. Claims without any miner ID are left out of the report.
+export const buildStorageProviderReports = (
+    claims: Claim[],
+    certificates: InventoryCertificate[],
+    batches: Batch[],
+): StorageProviderReport[] => {
+    const reports: { [minerId: string]: StorageProviderReport } = {};
+    const batchIdsByTokenId: { [tokenId: string]: string[] } = {};
+    for (const { tokenId, batchIds } of certificates) {
+        batchIdsByTokenId[tokenId] = batchIds;
+    }
+    const redemptionStatementsByBatchId: { [batchId: string]: string[] } = {};
+    for (const { batchId, redemptionStatement } of batches) {
+        if (!redemptionStatementsByBatchId[batchId]) {
+            redemptionStatementsByBatchId[batchId] = [];
+        }
+        addUnique(redemptionStatementsByBatchId[batchId], redemptionStatement);
+    }
+
+    for (const claim of uniqueClaims(claims)) {
+        const minerId = claimMinerId(claim);
+        if (!minerId) {
+            continue;
+        }
+        if (!reports[minerId]) {
+            reports[minerId] = {
+                minerId,
+                claimedWh: '0',
+                claimCount: 0,
+                certificateIds: [],
+                batchIds: [],
+                redemptionStatements: [],
+                countries: [],
+                periods: [],
+            };
+        }
+        const report = reports[minerId];
+        const { countryCode, periodStartDate, periodEndDate } =
+            claim.claimDataDecoded;
+
+        report.claimedWh = BigNumber.from(report.claimedWh)
+            .add(claim.value)
+            .toString();
+        report.claimCount++;
+        addUnique(report.certificateIds, claim.tokenId);
+        addUnique(report.countries, countryCode);
+        addUnique(report.periods, `${periodStartDate}/${periodEndDate}`);
+
+        for (const batchId of batchIdsByTokenId[claim.tokenId] ?? []) {
+            addUnique(report.batchIds, batchId);
+            for (const redemptionStatement of redemptionStatementsByBatchId[
+                batchId
+            ] ?? []) {
+                addUnique(report.redemptionStatements, redemptionStatement);
+            }
+        }
+    }
+
+    return Object.values(reports).sort((a, b) =>
+        a.minerId.localeCompare(b.minerId),
+    );
+};
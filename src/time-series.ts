@@ -0,0 +1,214 @@
+import { BigNumber } from 'ethers';
+
+import { blockTime } from './block-timestamps';
+import { uniqueClaims } from './storage-providers';
+import { uniqueMints } from './totals';
+import { logger } from './logger';
+import { Claim, EwcData, TimeSeriesPeriod } from './types';
+
+/*
+ * Time series of the minted, signed, filled and claimed amounts
+ */
+
+export const TIME_SERIES_GRANULARITIES = [
+    'day',
+    'week',
+    'month',
+    'quarter',
+] as const;
+
+export type TimeSeriesGranularity = (typeof TIME_SERIES_GRANULARITIES)[number];
+
+// block: time of the block the claim was made in. period-start and period-end: reporting period of the decoded claim data.
+export const CLAIM_TIME_BASES = [
+    'block',
+    'period-start',
+    'period-end',
+] as const;
+
+export type ClaimTimeBasis = (typeof CLAIM_TIME_BASES)[number];
+
+export type TimeSeriesOptions = {
+    granularity: TimeSeriesGranularity;
+    claimTime: ClaimTimeBasis;
+};
+
+export const DEFAULT_TIME_SERIES_OPTIONS: TimeSeriesOptions = {
+    granularity: 'month',
+    claimTime: 'block',
+};
+
+// Columns of the time series holding amounts in Wh.
+export const TIME_SERIES_ENERGY_COLUMNS: (keyof TimeSeriesPeriod)[] = [
+    'mintedWh',
+    'signedWh',
+    'filledWh',
+    'claimedWh',
+    'cumulativeMintedWh',
+    'cumulativeSignedWh',
+    'cumulativeFilledWh',
+    'cumulativeClaimedWh',
+];
+
+type Amounts = {
+    minted: BigNumber;
+    signed: BigNumber;
+    filled: BigNumber;
+    claimed: BigNumber;
+};
+
+type AmountKey = keyof Amounts;
+
+const AMOUNT_KEYS: AmountKey[] = ['minted', 'signed', 'filled', 'claimed'];
+
+const zeroAmounts = (): Amounts => ({
+    minted: BigNumber.from(0),
+    signed: BigNumber.from(0),
+    filled: BigNumber.from(0),
+    claimed: BigNumber.from(0),
+});
+
+// Periods are in UTC, weeks start on Monday.
+const periodStartOf = (date: Date, granularity: TimeSeriesGranularity) => {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    switch (granularity) {
+        case 'day':
+            return new Date(Date.UTC(year, month, day));
+        case 'week':
+            return new Date(
+                Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)),
+            );
+        case 'month':
+            return new Date(Date.UTC(year, month, 1));
+        case 'quarter':
+            return new Date(Date.UTC(year, month - (month % 3), 1));
+    }
+};
+
+const nextPeriodStart = (start: Date, granularity: TimeSeriesGranularity) => {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth();
+    const day = start.getUTCDate();
+    switch (granularity) {
+        case 'day':
+            return new Date(Date.UTC(year, month, day + 1));
+        case 'week':
+            return new Date(Date.UTC(year, month, day + 7));
+        case 'month':
+            return new Date(Date.UTC(year, month + 1, 1));
+        case 'quarter':
+            return new Date(Date.UTC(year, month + 3, 1));
+    }
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const claimTime = (claim: Claim, basis: ClaimTimeBasis) => {
+    switch (basis) {
+        case 'block':
+            return claim.timestamp;
+        case 'period-start':
+            return claim.claimDataDecoded.periodStartDate;
+        case 'period-end':
+            return claim.claimDataDecoded.periodEndDate;
+    }
+};
+
+// Bucket the amounts of the reconciliation by period, from the first period holding an amount to the last one, empty
+// periods included. Certificates and claims repeated for each batch they are in are counted once. Amounts whose time is
+// unknown are left out.
+export const buildTimeSeries = (
+    {
+        events,
+        agreements,
+        certificates,
+        claims,
+    }: Pick<EwcData, 'events' | 'agreements' | 'certificates' | 'claims'>,
+    { granularity, claimTime: claimTimeBasis }: TimeSeriesOptions,
+): TimeSeriesPeriod[] => {
+    const amountsByPeriod: { [periodStart: string]: Amounts } = {};
+    const untimed: { [key in AmountKey]: number } = {
+        minted: 0,
+        signed: 0,
+        filled: 0,
+        claimed: 0,
+    };
+    const add = (key: AmountKey, time: string, value: string) => {
+        const date = new Date(time);
+        if (!time || isNaN(date.getTime())) {
+            untimed[key]++;
+            return;
+        }
+        const periodStart = isoDate(periodStartOf(date, granularity));
+        if (!amountsByPeriod[periodStart]) {
+            amountsByPeriod[periodStart] = zeroAmounts();
+        }
+        amountsByPeriod[periodStart][key] =
+            amountsByPeriod[periodStart][key].add(value);
+    };
+
+    for (const { value, timestamp } of uniqueMints(certificates)) {
+        add('minted', timestamp, value);
+    }
+    for (const { signedAmount, timestamp } of agreements) {
+        add('signed', timestamp, signedAmount);
+    }
+    // Fills are only kept in the events, the agreements only give their sum.
+    const agreementAddresses = new Set(agreements.map(a => a.agreementAddress));
+    for (const { args, blockHash } of events.agreementFilled) {
+        if (agreementAddresses.has(args.agreementAddress)) {
+            add(
+                'filled',
+                blockTime(events.blockTimestamps, blockHash),
+                args.amount.toString(),
+            );
+        }
+    }
+    for (const claim of uniqueClaims(claims)) {
+        add('claimed', claimTime(claim, claimTimeBasis), claim.value);
+    }
+
+    for (const key of AMOUNT_KEYS) {
+        if (untimed[key]) {
+            logger.warn(
+                `\t${untimed[key]} ${key} amounts left out of the time series as their time is unknown\n`,
+            );
+        }
+    }
+
+    const periodStarts = Object.keys(amountsByPeriod).sort();
+    if (!periodStarts.length) {
+        return [];
+    }
+
+    const timeSeries: TimeSeriesPeriod[] = [];
+    const cumulative = zeroAmounts();
+    const last = new Date(periodStarts[periodStarts.length - 1]);
+    for (
+        let start = new Date(periodStarts[0]);
+        start <= last;
+        start = nextPeriodStart(start, granularity)
+    ) {
+        const next = nextPeriodStart(start, granularity);
+        const amounts = amountsByPeriod[isoDate(start)] ?? zeroAmounts();
+        for (const key of AMOUNT_KEYS) {
+            cumulative[key] = cumulative[key].add(amounts[key]);
+        }
+        timeSeries.push({
+            periodStart: isoDate(start),
+            periodEnd: isoDate(new Date(next.getTime() - 1)),
+            mintedWh: amounts.minted.toString(),
+            signedWh: amounts.signed.toString(),
+            filledWh: amounts.filled.toString(),
+            claimedWh: amounts.claimed.toString(),
+            cumulativeMintedWh: cumulative.minted.toString(),
+            cumulativeSignedWh: cumulative.signed.toString(),
+            cumulativeFilledWh: cumulative.filled.toString(),
+            cumulativeClaimedWh: cumulative.claimed.toString(),
+        });
+    }
+
+    return timeSeries;
+};
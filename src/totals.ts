@@ -0,0 +1,47 @@
+import { BigNumber } from 'ethers';
+
+import { uniqueClaims } from './storage-providers';
+import { Certificate, Reconciliation } from './types';
+
+/*
+ * Totals of the reconciliation
+ */
+
+export type Totals = {
+    mintedWh: BigNumber;
+    signedWh: BigNumber;
+    filledWh: BigNumber;
+    claimedWh: BigNumber;
+};
+
+// The reconciliation repeats a certificate for each batch it is in, keep each mint once. A certificate minted several
+// times in the same event is told apart by its position.
+export const uniqueMints = (certificates: Certificate[]): Certificate[] => {
+    const unique: { [key: string]: Certificate } = {};
+    for (const certificate of certificates) {
+        unique[
+            JSON.stringify([
+                certificate.transactionHash,
+                certificate.logIndex,
+                certificate.entryIndex,
+            ])
+        ] = certificate;
+    }
+    return Object.values(unique);
+};
+
+const sum = (values: string[]) =>
+    values.reduce((total, value) => total.add(value), BigNumber.from(0));
+
+// Amounts minted, signed, filled and claimed over the agreements of the reconciliation. The time series adds up the
+// same amounts period by period.
+export const computeTotals = ({
+    agreements,
+    certificates,
+    claims,
+}: Pick<Reconciliation, 'agreements' | 'certificates' | 'claims'>): Totals => ({
+    mintedWh: sum(uniqueMints(certificates).map(c => c.value)),
+    signedWh: sum(agreements.map(a => a.signedAmount)),
+    filledWh: sum(agreements.map(a => a.filledAmount)),
+    claimedWh: sum(uniqueClaims(claims).map(c => c.value)),
+});
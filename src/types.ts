@@ -0,0 +1,503 @@
+import { BigNumber } from 'ethers';
+import { IClaimData } from '@zero-labs/tokenization-contracts';
+
+import { DecodeStatus } from './claim-data';
+import { DecodedAgreementMetadata } from './agreement-metadata';
+
+/*
+ * Energy Web Chain intersected data
+ */
+
+export type BalanceRegistry = {
+    [tokenId: string]: { [address: string]: BigNumber };
+};
+
+export type BatchRegistry = {
+    [key: string]: Batch;
+};
+
+export type Batch = {
+    // Unique ID associated to a batch.
+    batchId: string;
+    // Redemption statement set for the batch.
+    redemptionStatement: string;
+    // URL pointing to the redemption statement PDF.
+    storagePointer: string;
+    // Certificates IDs related to the batch.
+    certificateIds: string[];
+    // Position of the RedemptionStatementSet event.
+    blockNumber: number;
+    logIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // Transaction hash at which the corresponding event was emitted.
+    transactionHash: string;
+};
+
+export type Certificate = {
+    // Token ID generated on chain.
+    tokenId: string;
+    // Batch ID to which this certificate is related.
+    batchId: string;
+    // Amount of RECs associated to this certificate.
+    value: string;
+    operator: string;
+    from: string;
+    to: string;
+    // Event that minted the certificate (TransferSingle, TransferBatch or TransferBatchMultiple).
+    eventType: TransferEventType;
+    // Position of the mint event, and of the mint in it on TransferBatch and TransferBatchMultiple events (0 on
+    // TransferSingle).
+    blockNumber: number;
+    logIndex: number;
+    entryIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // Transaction hash at which the corresponding event was emitted.
+    transactionHash: string;
+};
+
+export type Transfer = {
+    // Certificate ID that was transferred.
+    tokenId: string;
+    operator: string;
+    from: string;
+    to: string;
+    // Amount of RECs transferred.
+    value: string;
+    // Event that emitted the transfer (TransferSingle, TransferBatch or TransferBatchMultiple).
+    eventType: TransferEventType;
+    blockNumber: number;
+    logIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // Transaction hash at which the corresponding event was emitted.
+    transactionHash: string;
+};
+
+export type Custody = {
+    // Certificate ID that is tracked.
+    tokenId: string;
+    // Addresses that received the certificate when it was minted.
+    mintedTo: string[];
+    // Ordered hops followed by the certificate since its mint, formatted as `from>to:value`.
+    custodyChain: string[];
+    // Addresses currently holding the certificate, formatted as `address:balance`.
+    currentHolders: string[];
+};
+
+export type BalanceMismatch = {
+    // Certificate ID of the compared balance.
+    tokenId: string;
+    // Address owning the compared balance.
+    address: string;
+    // Either the held balance (balanceOf) or the claimed balance (claimedBalanceOf).
+    balanceType: 'holder' | 'claimed';
+    // Balance reconstructed from the parsed events.
+    expected: string;
+    // Balance returned by the RegistryExtended contract.
+    onChain: string;
+};
+
+export type Claim = {
+    // Certificate ID that was subject of a claim.
+    tokenId: string;
+    // EW address.
+    claimIssuer: string;
+    // SP address that claimed the RECs.
+    claimSubject: string;
+    // ?
+    topic: string;
+    // Amount of RECs claimed.
+    value: string;
+    // Metadata associated to the claim.
+    claimData: string;
+    // Decoded claim data, with empty fields when it could not be decoded.
+    claimDataDecoded: IClaimData;
+    // Whether the claim data was decoded as is, with the legacy array layout, recovered, or could not be decoded.
+    decodeStatus: DecodeStatus;
+    decodeWarnings: string[];
+    // Position of the claim event, and of the claim in it on ClaimBatch and ClaimBatchMultiple events (0 on ClaimSingle).
+    blockNumber: number;
+    logIndex: number;
+    entryIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // Transaction hash at which the corresponding event was emitted.
+    transactionHash: string;
+};
+
+// unclaimed: never claimed. partially-claimed: claimed for less than its filled amount. claimed: claimed for all of it.
+export type AgreementClaimStatus =
+    | 'unclaimed'
+    | 'partially-claimed'
+    | 'claimed';
+
+// Claim of an agreement (AgreementClaimed event), matched to the ClaimSingle events it produced on the registry.
+export type AgreementClaim = {
+    // Metadata associated to the claim.
+    claimData: string;
+    // Decoded claim data, with empty fields when it could not be decoded.
+    claimDataDecoded: IClaimData;
+    // Whether the claim data was decoded as is, with the legacy array layout, recovered, or could not be decoded.
+    decodeStatus: DecodeStatus;
+    decodeWarnings: string[];
+    // Amount claimed by the matched ClaimSingle events, in Wh.
+    claimedAmount: string;
+    // Certificates claimed, and log indexes of the matched ClaimSingle events in the transaction.
+    certificateIds: string[];
+    claimLogIndexes: number[];
+    // Position of the AgreementClaimed event.
+    blockNumber: number;
+    logIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // Transaction hash at which the AgreementClaimed and ClaimSingle events were emitted.
+    transactionHash: string;
+};
+
+export type Agreement = {
+    agreementAddress: string;
+    certificateIds: string[];
+    signedAmount: string;
+    filledAmount: string;
+    // Amount claimed through the agreement claims, in Wh.
+    claimedAmount: string;
+    claimStatus: AgreementClaimStatus;
+    buyer: string;
+    seller: string;
+    // Position of the AgreementSigned event.
+    blockNumber: number;
+    logIndex: number;
+    // Time of the block, as an ISO-8601 string. Empty when the block timestamp has not been synced.
+    timestamp: string;
+    // AgreementClaimed events of the agreement, in chain order.
+    agreementClaims: AgreementClaim[];
+    // Raw metadata, its decoded fields follow.
+    metadata: string;
+} & DecodedAgreementMetadata;
+
+// States an agreement goes through, in order. An agreement may be claimed before being fully filled, and invalidation
+// ends it in any state.
+export type AgreementLifecycleState =
+    | 'deployed'
+    | 'signed'
+    | 'partially-filled'
+    | 'fully-filled'
+    | 'claimed'
+    | 'invalidated';
+
+export type AgreementLifecycle = {
+    agreementAddress: string;
+    // Latest state reached, with the block and time it was reached at.
+    state: AgreementLifecycleState;
+    stateBlock: number | null;
+    stateTimestamp: string;
+    // Blocks each state was reached at, null when it was not. An agreement deployed before the start block of the
+    // contract has no deployment block, and one invalidated without any AgreementInvalidated event has no invalidation
+    // block.
+    deployedBlock: number | null;
+    signedBlock: number | null;
+    partiallyFilledBlock: number | null;
+    fullyFilledBlock: number | null;
+    claimedBlock: number | null;
+    invalidatedBlock: number | null;
+    // Amounts signed and filled, in Wh.
+    signedAmount: string;
+    filledAmount: string;
+};
+
+export type AgreementLifecycleSummary = {
+    state: AgreementLifecycleState;
+    // Agreements whose latest state is this one.
+    agreementCount: number;
+    signedAmount: string;
+    filledAmount: string;
+    // Agreement that has been in this state the longest, and the block it reached it at.
+    oldestAgreementAddress: string;
+    oldestStateBlock: number | null;
+};
+
+// Claims of the inventory grouped by storage provider, whether or not their certificate is in an agreement.
+export type StorageProviderReport = {
+    // Filecoin miner ID of the storage provider, parsed from the claim data.
+    minerId: string;
+    // Amount of RECs claimed for the storage provider, in Wh.
+    claimedWh: string;
+    claimCount: number;
+    // Certificates IDs the claims were made on.
+    certificateIds: string[];
+    // Batches IDs the claimed certificates are linked to by CertificateBatchMinted events.
+    batchIds: string[];
+    // Redemption statements (CIDs) set on those batches.
+    redemptionStatements: string[];
+    // Country codes of the claims.
+    countries: string[];
+    // Reporting periods of the claims, formatted as `periodStartDate/periodEndDate`.
+    periods: string[];
+};
+
+export type TimeSeriesPeriod = {
+    // First and last days of the period, as ISO-8601 dates.
+    periodStart: string;
+    periodEnd: string;
+    // Amounts minted, signed, filled and claimed within the period, in Wh.
+    mintedWh: string;
+    signedWh: string;
+    filledWh: string;
+    claimedWh: string;
+    // Amounts minted, signed, filled and claimed since the first period, in Wh.
+    cumulativeMintedWh: string;
+    cumulativeSignedWh: string;
+    cumulativeFilledWh: string;
+    cumulativeClaimedWh: string;
+};
+
+// in-agreement: filled into a valid agreement. batch-only: linked to a batch by CertificateBatchMinted, but in no valid
+// agreement. orphan: in neither.
+export type InventoryClassification = 'in-agreement' | 'batch-only' | 'orphan';
+
+export type InventoryCertificate = {
+    // Token ID generated on chain.
+    tokenId: string;
+    classification: InventoryClassification;
+    // Total amount minted for the certificate, in Wh.
+    mintedValue: string;
+    // Total amount claimed on the certificate, in Wh.
+    claimedValue: string;
+    // Addresses that received the certificate when it was minted.
+    mintedTo: string[];
+    // Batches IDs the certificate is linked to by CertificateBatchMinted events.
+    batchIds: string[];
+    // Valid agreements the certificate was filled into.
+    agreementAddresses: string[];
+    // Position and time of the first mint of the certificate.
+    blockNumber: number;
+    logIndex: number;
+    timestamp: string;
+    // Transaction hash of the first mint of the certificate.
+    transactionHash: string;
+};
+
+export type InventoryClaim = Claim & {
+    // Classification of the claimed certificate.
+    classification: InventoryClassification;
+};
+
+// Every minted certificate and every claim, whether or not they relate to an agreement or a batch.
+export type Inventory = {
+    certificates: InventoryCertificate[];
+    claims: InventoryClaim[];
+};
+
+// error: the data is inconsistent. warning: the data is incomplete or unexpected.
+export type AnomalySeverity = 'error' | 'warning';
+
+export type AnomalyCheck =
+    | 'claimed-exceeds-minted'
+    | 'filled-exceeds-signed'
+    | 'filled-certificate-without-batch'
+    | 'redemption-statement-without-batch-mint'
+    | 'duplicate-redemption-statement'
+    | 'claim-subject-not-agreement-party';
+
+export type Anomaly = {
+    severity: AnomalySeverity;
+    // Invariant that does not hold.
+    check: AnomalyCheck;
+    // Kind and ID of the record the anomaly is about: certificate token ID, agreement address, batch ID, or claim
+    // `transactionHash:logIndex:entryIndex`, as a transaction can hold several claims.
+    subjectType: 'certificate' | 'agreement' | 'batch' | 'claim';
+    subjectId: string;
+    message: string;
+};
+
+// verified: the downloaded statement hashes to its CID. mismatch: it does not. unavailable: it could not be downloaded.
+// invalid-cid: the redemption statement is not a CID that can be verified.
+export type StatementStatus =
+    | 'verified'
+    | 'mismatch'
+    | 'unavailable'
+    | 'invalid-cid';
+
+export type StatementVerification = {
+    batchId: string;
+    // CID set on chain as the redemption statement of the batch.
+    redemptionStatement: string;
+    storagePointer: string;
+    // Whether the storage pointer URL contains the on-chain CID.
+    storagePointerMatches: boolean;
+    status: StatementStatus;
+    // Chunking profile the CID was rebuilt with, when verified.
+    chunkingProfile: string;
+    // CID recomputed from the downloaded bytes with the default chunking profile, when mismatched.
+    computedCid: string;
+    // Size of the downloaded statement, null when it could not be downloaded.
+    byteLength: number | null;
+    error: string;
+};
+
+// Data reconciled from the Energy Web Chain events.
+export type Reconciliation = {
+    agreements: Agreement[];
+    batches: Batch[];
+    certificates: Certificate[];
+    claims: Claim[];
+    transfers: Transfer[];
+    custodies: Custody[];
+    storageProviders: StorageProviderReport[];
+    // Holder balances replayed from the transfers.
+    holderBalances: BalanceRegistry;
+    // Claimed balances summed from the claims.
+    claimedBalances: BalanceRegistry;
+    inventory: Inventory;
+    // Invariants of the data that do not hold.
+    anomalies: Anomaly[];
+    // States of every agreement, signed and valid or not.
+    agreementLifecycles: AgreementLifecycle[];
+};
+
+export type EwcData = Reconciliation & {
+    // Events the reconciliation has been built from.
+    events: EwcEvents;
+    balanceMismatches: BalanceMismatch[];
+};
+
+/*
+ * Energy Web Chain events args
+ */
+
+export type CertificateBatchMintedArgs = {
+    batchId: string;
+    certificateIds: BigNumber[];
+};
+
+export type RedemptionSetArgs = {
+    batchId: string;
+    redemptionStatement: string;
+    storagePointer: string;
+};
+
+export type MintedArgs = {
+    id: BigNumber;
+    value: BigNumber;
+    operator: string;
+    from: string;
+    to: string;
+};
+
+export type TransferBatchArgs = {
+    ids: BigNumber[];
+    values: BigNumber[];
+    operator: string;
+    from: string;
+    to: string;
+};
+
+export type TransferBatchMultipleArgs = {
+    ids: BigNumber[];
+    values: BigNumber[];
+    operator: string;
+    from: string[];
+    to: string[];
+};
+
+export type TransferEventType =
+    | 'TransferSingle'
+    | 'TransferBatch'
+    | 'TransferBatchMultiple';
+
+export type ClaimSingleArgs = {
+    _claimIssuer: string;
+    _claimSubject: string;
+    _topic: BigNumber;
+    _id: BigNumber;
+    _value: BigNumber;
+    _claimData: string;
+};
+
+export type ClaimBatchArgs = {
+    _claimIssuer: string;
+    _claimSubject: string;
+    _ids: BigNumber[];
+    _values: BigNumber[];
+    _claimData: string[];
+};
+
+export type ClaimBatchMultipleArgs = {
+    _claimIssuer: string[];
+    _claimSubject: string[];
+    _ids: BigNumber[];
+    _values: BigNumber[];
+    _claimData: string[];
+};
+
+export type AgreementFilledArgs = {
+    agreementAddress: string;
+    certificateId: BigNumber;
+    amount: BigNumber;
+};
+
+export type AgreementSignedArgs = {
+    agreementAddress: string;
+    buyer: string;
+    seller: string;
+    amount: BigNumber;
+};
+
+export type AgreementInvalidatedArgs = {
+    agreementAddress: string;
+};
+
+export type AgreementClaimedArgs = {
+    agreementAddress: string;
+    claimData: string;
+};
+
+export type AgreementsDeployedArgs = {
+    agreements: string[];
+};
+
+export type AgreementData = {
+    buyer: string;
+    seller: string;
+    amount: BigNumber;
+    metadata: string;
+    valid: boolean;
+};
+
+// Unix timestamps of blocks, in seconds, per block hash.
+export type BlockTimestamps = { [blockHash: string]: number };
+
+// Decoded event, as returned by the fetch functions.
+export type EwcEvent<Args> = {
+    args: Args;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    transactionHash: string;
+};
+
+// All the events the reconciliation is built from, along with the data of signed agreements.
+export type EwcEvents = {
+    agreementsDeployed: EwcEvent<AgreementsDeployedArgs>[];
+    agreementSigned: EwcEvent<AgreementSignedArgs>[];
+    agreementFilled: EwcEvent<AgreementFilledArgs>[];
+    agreementClaimed: EwcEvent<AgreementClaimedArgs>[];
+    agreementInvalidated: EwcEvent<AgreementInvalidatedArgs>[];
+    transferSingle: EwcEvent<MintedArgs>[];
+    transferBatch: EwcEvent<TransferBatchArgs>[];
+    transferBatchMultiple: EwcEvent<TransferBatchMultipleArgs>[];
+    redemptionStatementSet: EwcEvent<RedemptionSetArgs>[];
+    certificateBatchMinted: EwcEvent<CertificateBatchMintedArgs>[];
+    claimSingle: EwcEvent<ClaimSingleArgs>[];
+    claimBatch: EwcEvent<ClaimBatchArgs>[];
+    claimBatchMultiple: EwcEvent<ClaimBatchMultipleArgs>[];
+    // Agreement data read from the agreementData view, per agreement address.
+    agreementsData: { [address: string]: AgreementData };
+    // Timestamps of the blocks the events were emitted in.
+    blockTimestamps: BlockTimestamps;
+    // Last block up to which all the registry events were synced, -1 before the first sync. Contract balances are read
+    // at this block, so that later transfers and claims do not show up as mismatches.
+    lastSyncedBlock: number;
+};
@@ -0,0 +1,86 @@
+import { BigNumber, BigNumberish } from 'ethers';
+
+/*
+ * Energy units, values are converted from Wh with exact decimal arithmetic
+ */
+
+export const ENERGY_UNITS = ['Wh', 'kWh', 'MWh', 'GWh'] as const;
+
+export type EnergyUnit = (typeof ENERGY_UNITS)[number];
+
+// Number of decimal digits between Wh and each unit.
+const UNIT_DECIMALS: { [unit in EnergyUnit]: number } = {
+    Wh: 0,
+    kWh: 3,
+    MWh: 6,
+    GWh: 9,
+};
+
+// Exact decimal value in the unit, without trailing zeros, e.g. 1234500 Wh is 1.2345 MWh.
+export const toEnergyUnit = (wh: BigNumberish, unit: EnergyUnit): string => {
+    const value = BigNumber.from(wh);
+    const decimals = UNIT_DECIMALS[unit];
+    if (!decimals) {
+        return value.toString();
+    }
+
+    const divisor = BigNumber.from(10).pow(decimals);
+    const sign = value.isNegative() ? '-' : '';
+    const integer = value.abs().div(divisor).toString();
+    const fraction = value
+        .abs()
+        .mod(divisor)
+        .toString()
+        .padStart(decimals, '0')
+        .replace(/0+$/, '');
+
+    return fraction ? `${sign}${integer}.${fraction}` : `${sign}${integer}`;
+};
+
+// Largest unit the value is at least 1 of, Wh for values under 1 kWh.
+export const autoEnergyUnit = (wh: BigNumberish): EnergyUnit => {
+    const value = BigNumber.from(wh).abs();
+    return (
+        [...ENERGY_UNITS]
+            .reverse()
+            .find(unit =>
+                value.gte(BigNumber.from(10).pow(UNIT_DECIMALS[unit])),
+            ) ?? 'Wh'
+    );
+};
+
+export const formatEnergy = (
+    wh: BigNumberish,
+    unit: EnergyUnit | 'auto' = 'auto',
+) => {
+    const resolvedUnit = unit === 'auto' ? autoEnergyUnit(wh) : unit;
+    return `${toEnergyUnit(wh, resolvedUnit)} ${resolvedUnit}`;
+};
+
+// Name of the column holding a Wh column converted to the unit: claimedWh becomes claimedMWh, value becomes valueMWh.
+export const energyColumnName = (column: string, unit: EnergyUnit) =>
+    `${column.replace(/Wh$/, '')}${unit}`;
+
+// Add, right after each of the Wh columns, the column converted to the unit. The Wh columns are kept as they are.
+export const withEnergyColumns = <Row extends object>(
+    rows: Row[],
+    columns: (keyof Row & string)[],
+    unit: EnergyUnit,
+): object[] =>
+    unit === 'Wh'
+        ? rows
+        : rows.map(row =>
+              Object.fromEntries(
+                  Object.entries(row).flatMap(([column, value]) =>
+                      columns.includes(column as keyof Row & string)
+                          ? [
+                                [column, value],
+                                [
+                                    energyColumnName(column, unit),
+                                    toEnergyUnit(value, unit),
+                                ],
+                            ]
+                          : [[column, value]],
+                  ),
+              ),
+          );
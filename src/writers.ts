@@ -0,0 +1,324 @@
+import { BigNumber } from 'ethers';
+import Papa from 'papaparse';
+import fs from 'fs';
+import path from 'path';
+
+import { logger } from './logger';
+import { writeSQLite } from './sqlite';
+import { EnergyUnit, formatEnergy, withEnergyColumns } from './units';
+import { summarizeAgreementLifecycles } from './lifecycle';
+import { computeTotals } from './totals';
+import { EwcData, InventoryClassification } from './types';
+
+/*
+ * Writers of the reconciled data
+ */
+
+const INVENTORY_CLASSIFICATIONS: InventoryClassification[] = [
+    'in-agreement',
+    'batch-only',
+    'orphan',
+];
+
+// Value in the unit, followed by the raw Wh value when converted.
+const summaryEnergy = (wh: BigNumber | string, unit: EnergyUnit | 'auto') => {
+    const formatted = formatEnergy(wh, unit);
+    return formatted === `${wh.toString()} Wh`
+        ? formatted
+        : `${formatted} (${wh.toString()} Wh)`;
+};
+
+// Amounts are printed in the unit, or by default in the largest unit they are at least 1 of.
+export const printEwcSummary = (
+    {
+        agreements,
+        certificates,
+        claims,
+        storageProviders,
+        inventory,
+        anomalies,
+        agreementLifecycles,
+        balanceMismatches,
+    }: EwcData,
+    unit: EnergyUnit | 'auto' = 'auto',
+) => {
+    // The reconciliation repeats certificates and claims for each batch they are in, the totals count them once so that
+    // they match the time series and the minted value per classification.
+    const totals = computeTotals({
+        agreements,
+        certificates,
+        claims,
+    });
+
+    logger.info(
+        `\tAGREEMENT SIGNED VALUE: ${summaryEnergy(totals.signedWh, unit)}\n`,
+    );
+    logger.info(
+        `\tAGREEMENT FILLED VALUE: ${summaryEnergy(totals.filledWh, unit)}\n`,
+    );
+
+    // Amount claimed through AgreementClaimed events, claims made directly on the registry are not included.
+    let agreementsClaimedValue = BigNumber.from(0);
+    agreements.forEach(
+        a =>
+            (agreementsClaimedValue = agreementsClaimedValue.add(
+                BigNumber.from(a.claimedAmount),
+            )),
+    );
+    logger.info(
+        `\tAGREEMENT CLAIMED VALUE: ${summaryEnergy(
+            agreementsClaimedValue,
+            unit,
+        )} in ${
+            agreements.filter(a => a.claimStatus === 'claimed').length
+        } fully claimed agreements\n`,
+    );
+
+    logger.info(`\tMINTED VALUE: ${summaryEnergy(totals.mintedWh, unit)}\n`);
+    logger.info(`\tCLAIMED VALUE: ${summaryEnergy(totals.claimedWh, unit)}\n`);
+
+    logger.info(`\tSTORAGE PROVIDERS: ${storageProviders.length}\n`);
+    for (const { minerId, claimedWh, claimCount } of storageProviders) {
+        logger.info(
+            `\t\t${minerId}: ${summaryEnergy(
+                claimedWh,
+                unit,
+            )} claimed in ${claimCount} claims\n`,
+        );
+    }
+
+    // Value of every minted certificate, including the ones in no agreement.
+    logger.info(`\tINVENTORY MINTED VALUE:\n`);
+    for (const classification of INVENTORY_CLASSIFICATIONS) {
+        let inventoryValue = BigNumber.from(0);
+        const inventoryCertificates = inventory.certificates.filter(
+            c => c.classification === classification,
+        );
+        inventoryCertificates.forEach(
+            c => (inventoryValue = inventoryValue.add(c.mintedValue)),
+        );
+        logger.info(
+            `\t\t${classification}: ${summaryEnergy(inventoryValue, unit)} in ${
+                inventoryCertificates.length
+            } certificates\n`,
+        );
+    }
+
+    // Agreements that are neither claimed nor invalidated are stuck in their state.
+    logger.info(`\tAGREEMENT LIFECYCLE:\n`);
+    for (const {
+        state,
+        agreementCount,
+        oldestAgreementAddress,
+        oldestStateBlock,
+    } of summarizeAgreementLifecycles(agreementLifecycles)) {
+        logger.info(
+            `\t\t${state}: ${agreementCount} agreements${
+                agreementCount && oldestStateBlock !== null
+                    ? `, ${oldestAgreementAddress} since block ${oldestStateBlock}`
+                    : ''
+            }\n`,
+        );
+    }
+
+    logger.info(`\tBALANCE MISMATCHES: ${balanceMismatches.length}\n`);
+
+    logger.info(
+        `\tANOMALIES: ${
+            anomalies.filter(a => a.severity === 'error').length
+        } errors, ${
+            anomalies.filter(a => a.severity === 'warning').length
+        } warnings\n`,
+    );
+    const anomalyCounts: { [check: string]: number } = {};
+    for (const { check } of anomalies) {
+        anomalyCounts[check] = (anomalyCounts[check] ?? 0) + 1;
+    }
+    for (const [check, count] of Object.entries(anomalyCounts)) {
+        logger.info(`\t\t${check}: ${count}\n`);
+    }
+};
+
+export const OUTPUT_FORMATS = ['csv', 'json', 'ndjson', 'sqlite'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// With fullInventory, every minted certificate and every claim are also written, classified by whether they are in an
+// agreement. The SQLite database always holds every minted certificate and claim with its classification, so the option
+// only applies to files. Likewise, Wh columns are only converted to another unit in files, the database keeps Wh.
+export const exportEwcData = async (
+    ewcData: EwcData,
+    outDir: string,
+    format: OutputFormat = 'csv',
+    fullInventory = false,
+    unit: EnergyUnit = 'Wh',
+) => {
+    fs.mkdirSync(outDir, { recursive: true });
+
+    // All tables are written to a single database.
+    if (format === 'sqlite') {
+        logger.info(`Generating SQLite database...\n`);
+        return writeSQLite(ewcData, path.resolve(outDir, 'ewc-data.sqlite'));
+    }
+
+    const {
+        agreements,
+        batches,
+        certificates,
+        claims,
+        transfers,
+        custodies,
+        storageProviders,
+        inventory,
+        anomalies,
+        agreementLifecycles,
+        balanceMismatches,
+    } = ewcData;
+
+    logger.info(
+        `Generating ${format.toUpperCase()} files for agreements, batch, certificates, claims, transfers, custodies, storage providers, anomalies, agreement lifecycles and balances reconciliation...\n`,
+    );
+
+    await Promise.all([
+        writeOutput(
+            outDir,
+            'agreements',
+            withEnergyColumns(
+                agreements,
+                ['signedAmount', 'filledAmount'],
+                unit,
+            ),
+            format,
+        ),
+        writeOutput(outDir, 'batches', batches, format),
+        writeOutput(
+            outDir,
+            'certificates',
+            withEnergyColumns(certificates, ['value'], unit),
+            format,
+        ),
+        writeOutput(
+            outDir,
+            'claims',
+            withEnergyColumns(claims, ['value'], unit),
+            format,
+        ),
+        writeOutput(
+            outDir,
+            'transfers',
+            withEnergyColumns(transfers, ['value'], unit),
+            format,
+        ),
+        writeOutput(outDir, 'custodies', custodies, format),
+        writeOutput(
+            outDir,
+            'storage-providers',
+            withEnergyColumns(storageProviders, ['claimedWh'], unit),
+            format,
+        ),
+        writeOutput(
+            outDir,
+            'balances-reconciliation',
+            balanceMismatches,
+            format,
+        ),
+        writeOutput(outDir, 'anomalies', anomalies, format),
+        writeOutput(
+            outDir,
+            'agreement-lifecycles',
+            withEnergyColumns(
+                agreementLifecycles,
+                ['signedAmount', 'filledAmount'],
+                unit,
+            ),
+            format,
+        ),
+        writeOutput(
+            outDir,
+            'agreement-lifecycle-summary',
+            withEnergyColumns(
+                summarizeAgreementLifecycles(agreementLifecycles),
+                ['signedAmount', 'filledAmount'],
+                unit,
+            ),
+            format,
+        ),
+        ...(fullInventory
+            ? [
+                  writeOutput(
+                      outDir,
+                      'inventory-certificates',
+                      withEnergyColumns(
+                          inventory.certificates,
+                          ['mintedValue', 'claimedValue'],
+                          unit,
+                      ),
+                      format,
+                  ),
+                  writeOutput(
+                      outDir,
+                      'inventory-claims',
+                      withEnergyColumns(inventory.claims, ['value'], unit),
+                      format,
+                  ),
+              ]
+            : []),
+    ]);
+};
+
+export const writeOutput = (
+    outDir: string,
+    name: string,
+    rows: object[],
+    format: Exclude<OutputFormat, 'sqlite'>,
+) => {
+    switch (format) {
+        case 'csv':
+            return writeCSV(outDir, name, rows);
+        case 'json':
+            return writeJSON(outDir, name, rows);
+        case 'ndjson':
+            return writeNDJSON(outDir, name, rows);
+    }
+};
+
+// Nested objects can not be represented in a CSV cell, they are written as JSON strings. Arrays of plain values are
+// comma-joined, arrays of objects are written as JSON strings too.
+const isNested = (value: unknown) =>
+    value !== null &&
+    typeof value === 'object' &&
+    (!Array.isArray(value) || value.some(isNested));
+
+const toCSVRow = (row: object) =>
+    Object.fromEntries(
+        Object.entries(row).map(([column, value]) => [
+            column,
+            isNested(value) ? JSON.stringify(value) : value,
+        ]),
+    );
+
+export const writeCSV = (outDir: string, name: string, rows: object[]) =>
+    writeFile(outDir, `${name}.csv`, Papa.unparse(rows.map(toCSVRow)));
+
+export const writeJSON = (outDir: string, name: string, rows: object[]) =>
+    writeFile(outDir, `${name}.json`, `${JSON.stringify(rows, null, 4)}\n`);
+
+// One JSON object per line, so that large outputs can be streamed by readers.
+export const writeNDJSON = (outDir: string, name: string, rows: object[]) =>
+    writeFile(
+        outDir,
+        `${name}.ndjson`,
+        rows.map(row => `${JSON.stringify(row)}\n`).join(''),
+    );
+
+const writeFile = async (outDir: string, fileName: string, content: string) => {
+    try {
+        await fs.promises.writeFile(path.resolve(outDir, fileName), content);
+    } catch (err) {
+        logger.error(
+            `\tError while generating ${fileName}: ${(err as Error).message}\n`,
+        );
+        throw err;
+    }
+    logger.info(`\t${fileName} generated!\n`);
+};